@@ -18,6 +18,11 @@ module.exports = {
   // Module paths (matches tsconfig paths)
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    // Resolve a single React copy, html-react-parser is hoisted next to the workspace's React
+    '^react$': '<rootDir>/node_modules/react',
+    '^react/(.*)$': '<rootDir>/node_modules/react/$1',
+    '^react-dom$': '<rootDir>/node_modules/react-dom',
+    '^react-dom/(.*)$': '<rootDir>/node_modules/react-dom/$1',
   },
 
   // Transform files
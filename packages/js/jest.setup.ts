@@ -78,6 +78,14 @@ class MockNextResponse {
     return response;
   }
 
+  static json(body: any, init?: { status?: number; headers?: HeadersInit }): MockNextResponse {
+    return new MockNextResponse(JSON.stringify(body), init);
+  }
+
+  async json() {
+    return JSON.parse(this.body);
+  }
+
   async text(): Promise<string> {
     return this.body?.toString() || '';
   }
@@ -7,6 +7,11 @@ import terser from "@rollup/plugin-terser";
 
 const packageJson = require("./package.json");
 
+// Keep the bundler hints on runtime `import()` calls (see src/utils/importModule.ts).
+const terserOptions = {
+  format: { comments: /webpackIgnore|turbopackIgnore/ },
+};
+
 export default [
   {
     input: 'src/index.ts',
@@ -28,7 +33,7 @@ export default [
       typescript({ tsconfig: './tsconfig.json' }), // This tells the plugin to prefer built-in modules (like 'path') over local ones
       resolve({ extensions: [".tsx", ".ts"] }),
       commonjs(),
-      terser(),
+      terser(terserOptions),
       typescriptPaths()
     ],
     external: [
@@ -77,7 +82,7 @@ export default [
       typescript({ tsconfig: './tsconfig.json' }), // This tells the plugin to prefer built-in modules (like 'path') over local ones
       resolve({ extensions: [".tsx", ".ts"] }),
       commonjs(),
-      terser(),
+      terser(terserOptions),
       typescriptPaths()
     ],
     external: [
@@ -126,7 +131,7 @@ export default [
       typescript({ tsconfig: './tsconfig.json' }), // This tells the plugin to prefer built-in modules (like 'path') over local ones
       resolve({ extensions: [".tsx", ".ts"] }),
       commonjs(),
-      terser(),
+      terser(terserOptions),
       typescriptPaths()
     ],
   },
@@ -163,7 +168,7 @@ export default [
       typescript({ tsconfig: './tsconfig.json' }), // This tells the plugin to prefer built-in modules (like 'path') over local ones
       resolve({ extensions: [".tsx", ".ts"] }),
       commonjs(),
-      terser(),
+      terser(terserOptions),
       typescriptPaths()
     ],
     external: [
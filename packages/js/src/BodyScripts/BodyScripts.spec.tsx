@@ -0,0 +1,182 @@
+import React from 'react';
+import { render } from '../testing/utils';
+import { BodyScripts } from './BodyScripts';
+import { processWcSettings } from '../compatibility/woocommerce';
+import { ScriptLoadingGroupEnum } from '../types';
+import type { ResolvedEnqueuedScript } from '../utils/resolveAssetUrl';
+
+jest.mock('../compatibility/woocommerce', () => ({
+  ...jest.requireActual('../compatibility/woocommerce'),
+  processWcSettings: jest.fn(),
+}));
+
+function footerScript(handle: string, script: Partial<ResolvedEnqueuedScript> = {}): ResolvedEnqueuedScript {
+  return {
+    id: handle,
+    handle,
+    location: ScriptLoadingGroupEnum.FOOTER,
+    resolvedSrc: `/atx/default/wp-assets/${handle}.js`,
+    ...script,
+  };
+}
+
+function loadScript(id: string) {
+  document.getElementById(id)?.dispatchEvent(new Event('load'));
+}
+
+describe('BodyScripts', () => {
+  afterEach(() => {
+    document.head.querySelectorAll('link').forEach((el) => el.remove());
+    document.body.querySelectorAll('script').forEach((el) => el.remove());
+    delete (window as any).pageData;
+  });
+
+  it('should load only new handles after client-side navigation', () => {
+    const onComplete = jest.fn();
+    const onLoad = jest.fn();
+    const onDOMContentLoaded = jest.fn();
+    window.addEventListener('load', onLoad);
+    document.addEventListener('DOMContentLoaded', onDOMContentLoaded);
+
+    const shop = [footerScript('nav-vendor'), footerScript('nav-shop', { dependencies: [{ id: 'nav-vendor', handle: 'nav-vendor' }] })];
+    const { rerender } = render(<BodyScripts scripts={shop} waitFor onComplete={onComplete} />);
+
+    loadScript('nav-vendor');
+    loadScript('nav-shop');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onDOMContentLoaded).toHaveBeenCalledTimes(1);
+    // The browser fires load for the first page itself
+    expect(onLoad).not.toHaveBeenCalled();
+
+    const checkout = [
+      footerScript('nav-checkout', { dependencies: [{ id: 'nav-vendor', handle: 'nav-vendor' }, { id: 'nav-payments', handle: 'nav-payments' }] }),
+      footerScript('nav-vendor'),
+      footerScript('nav-payments'),
+    ];
+    rerender(<BodyScripts scripts={checkout} waitFor onComplete={onComplete} />);
+
+    expect(document.querySelectorAll('script#nav-vendor')).toHaveLength(1);
+    // A dependency the new page adds loads before its dependent
+    expect(document.getElementById('nav-payments')).toHaveAttribute('src', '/atx/default/wp-assets/nav-payments.js');
+    expect(document.getElementById('nav-checkout')).toBeNull();
+
+    loadScript('nav-payments');
+    expect(document.getElementById('nav-checkout')).toHaveAttribute('src', '/atx/default/wp-assets/nav-checkout.js');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    loadScript('nav-checkout');
+    expect(onComplete).toHaveBeenCalledTimes(2);
+    expect(onDOMContentLoaded).toHaveBeenCalledTimes(2);
+    expect(onLoad).toHaveBeenCalledTimes(1);
+
+    window.removeEventListener('load', onLoad);
+    document.removeEventListener('DOMContentLoaded', onDOMContentLoaded);
+  });
+
+  it('should not run again when rendered with the same scripts', () => {
+    const onComplete = jest.fn();
+    const scripts = [footerScript('same-page')];
+    const { rerender } = render(<BodyScripts scripts={scripts} waitFor onComplete={onComplete} />);
+
+    loadScript('same-page');
+    rerender(<BodyScripts scripts={scripts} waitFor onComplete={() => onComplete()} />);
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only re-dispatch lifecycle events when scripts were injected', () => {
+    const onComplete = jest.fn();
+    const onDOMContentLoaded = jest.fn();
+    document.addEventListener('DOMContentLoaded', onDOMContentLoaded);
+
+    const shop = [footerScript('events-vendor'), footerScript('events-shop')];
+    const { rerender } = render(<BodyScripts scripts={shop} waitFor onComplete={onComplete} />);
+    loadScript('events-vendor');
+    loadScript('events-shop');
+
+    // An equal array from a new render is not a new page
+    rerender(<BodyScripts scripts={[...shop]} waitFor onComplete={onComplete} />);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onDOMContentLoaded).toHaveBeenCalledTimes(1);
+
+    // A page whose scripts all ran already has nothing to initialize
+    rerender(<BodyScripts scripts={[footerScript('events-vendor')]} waitFor onComplete={onComplete} />);
+    expect(onComplete).toHaveBeenCalledTimes(2);
+    expect(onDOMContentLoaded).toHaveBeenCalledTimes(1);
+
+    document.removeEventListener('DOMContentLoaded', onDOMContentLoaded);
+  });
+
+  it('should re-run inline code that differs on the new page', () => {
+    const cart = [footerScript('page-data', {
+      extraData: 'window.pageData = { page: "cart" };',
+      after: ['window.pageData.after = "cart";'],
+    })];
+    const { rerender } = render(<BodyScripts scripts={cart} waitFor />);
+    loadScript('page-data');
+
+    expect((window as any).pageData).toEqual({ page: 'cart', after: 'cart' });
+
+    const checkout = [footerScript('page-data', {
+      extraData: 'window.pageData = { page: "checkout" };',
+      after: ['window.pageData.after = "checkout";'],
+    })];
+    rerender(<BodyScripts scripts={checkout} waitFor />);
+
+    expect((window as any).pageData).toEqual({ page: 'checkout', after: 'checkout' });
+    expect(document.querySelectorAll('script#page-data')).toHaveLength(1);
+    expect(document.querySelectorAll('script#page-data-extra')).toHaveLength(1);
+    expect(document.querySelectorAll('script#page-data-after')).toHaveLength(1);
+  });
+
+  it('should reprocess wc-settings when its settings change', () => {
+    const shop = [footerScript('wc-settings', { before: ['window.pageData = "shop";'] })];
+    const { rerender } = render(<BodyScripts scripts={shop} waitFor instance="shop" />);
+    loadScript('wc-settings');
+
+    expect(processWcSettings).toHaveBeenCalledTimes(1);
+
+    const checkout = [footerScript('wc-settings', { before: ['window.pageData = "checkout";'] })];
+    rerender(<BodyScripts scripts={checkout} waitFor instance="shop" />);
+
+    expect((window as any).pageData).toBe('checkout');
+    expect(processWcSettings).toHaveBeenCalledTimes(2);
+    expect(processWcSettings).toHaveBeenLastCalledWith('shop', []);
+  });
+
+  it('should map wc-settings store pages with function routes', () => {
+    const { processWcSettings: actualProcessWcSettings } = jest.requireActual('../compatibility/woocommerce');
+    (processWcSettings as jest.Mock).mockImplementationOnce(actualProcessWcSettings);
+    const routes = [(path: string) => (path.startsWith('/checkout/') ? `/store${path}` : null)];
+    const scripts = [
+      footerScript('wc-settings', {
+        before: [
+          'window.wcSettings = { storePages: { checkout: { permalink: "https://__NEXTPRESS_PROXY__/checkout/" }, cart: { permalink: "https://__NEXTPRESS_PROXY__/cart/" } } };',
+        ],
+      }),
+    ];
+
+    render(<BodyScripts scripts={scripts} routes={routes} waitFor instance="routes" />);
+
+    expect(processWcSettings).toHaveBeenCalledWith('routes', routes);
+    expect(window.wcSettings?.storePages).toEqual({
+      checkout: { permalink: 'http://localhost/store/checkout/' },
+      cart: { permalink: 'http://localhost/cart/' },
+    });
+    delete window.wcSettings;
+  });
+
+  it('should report failed scripts with onError', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const onError = jest.fn();
+    const onComplete = jest.fn();
+    render(<BodyScripts scripts={[footerScript('body-broken')]} waitFor onError={onError} onComplete={onComplete} />);
+
+    document.getElementById('body-broken')?.dispatchEvent(new Event('error'));
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ handle: 'body-broken', state: 'failed' }));
+    expect(consoleError).toHaveBeenCalledWith('[BodyScripts] Failed to load script: body-broken');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+});
@@ -1,135 +1,147 @@
-import { useEffect, useRef } from 'react';
-import { EnqueuedScript, ScriptLoadingGroupEnum, ScriptLoadingStrategyEnum } from '@/types';
+import { useEffect, useRef, useState } from 'react';
+import { ScriptLoadingGroupEnum, ScriptLoadingStrategyEnum } from '@/types';
 import { sortScriptsByDependencies } from '@/utils/sortScriptsByDependencies';
+import { getScriptSrc, ResolvedEnqueuedScript } from '@/utils/resolveAssetUrl';
 import { processWcSettings, replaceProxyPlaceholders } from '@/compatibility/woocommerce';
-
-// Global cache to track which scripts have been loaded
+import { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+import { getRouteMap } from '@/config/getRouteMap';
+import { triggerDOMContentLoaded } from '@/utils/triggerDOMContentLoaded';
+import { preloadScripts } from '@/utils/preloadScripts';
+import { createLoadedStatus, watchScriptLoad } from '@/utils/watchScriptLoad';
+import { useScriptsReady, ScriptStatus } from '@/ScriptLoader';
+import { injectInlineScript } from '@/utils/injectInlineScript';
+import { getScriptCacheKey, getScriptsKey } from '@/utils/getScriptCacheKey';
+import { getDocumentNonce, applyNonce } from '@/utils/nonce';
+import { setScriptSrc } from '@/utils/trustedTypes';
+import type { RouteMap } from '@/utils/mapRoute';
+import { triggerWindowLoad } from '@/utils/triggerWindowLoad';
+
+// Global cache to track which scripts have been loaded, keyed per instance
 // Prevents duplicate loads across component remounts
 const LoadCache = new Set<string>();
 
-// Global cache for WordPress backend URLs by instance slug
-// Prevents redundant API calls across component remounts
-const BackendUrlCache = new Map<string, string>();
+// Inline code (extraData, before, after) last injected per script
+// Lets client-side navigation re-run inline code that differs between pages
+const InlineCache = new Map<string, string>();
 
-/**
- * Extracts the path from a URL, removing the protocol and domain
- */
-function extractPath(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.pathname;
-  } catch {
-    // If URL parsing fails, assume it's already a path
-    return url;
-  }
-}
-
-/**
- * Decodes a string using XOR cipher with salt
- */
-function decodeWithSalt(encoded: string, salt: string): string {
-  const encodedBytes = Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
-  const saltBytes = new TextEncoder().encode(salt);
-  const decoded = new Uint8Array(encodedBytes.length);
-
-  for (let i = 0; i < encodedBytes.length; i++) {
-    decoded[i] = encodedBytes[i] ^ saltBytes[i % saltBytes.length];
-  }
-
-  return new TextDecoder().decode(decoded);
-}
-
-/**
- * Fetches the WordPress backend URL for a given instance slug.
- * Uses cache to avoid redundant API calls.
- */
-async function getBackendUrl(instance: string): Promise<string> {
-  // Check cache first
-  if (BackendUrlCache.has(instance)) {
-    return BackendUrlCache.get(instance)!;
-  }
-
-  try {
-    const response = await fetch(`/atx/${instance}/proxiee`, {
-      method: 'POST',
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch backend URL: ${response.status}`);
-    }
-
-    const data = await response.json();
-    // Decode using XOR cipher with salt
-    const salt = process.env.wcr_salt || 'nextpress-default-salt';
-    const backendUrl = decodeWithSalt(data.d, salt);
-
-    // Cache the result
-    BackendUrlCache.set(instance, backendUrl);
-
-    return backendUrl;
-  } catch (error) {
-    console.error(`[BodyScripts] Failed to fetch backend URL for instance "${instance}":`, error);
-    throw error;
-  }
-}
-
-/**
- * Determines if a script URL is external (different origin) or a WordPress asset.
- * External scripts should be loaded directly, WordPress assets should be proxied.
- */
-function isExternalScript(scriptUrl: string, backendUrl: string): boolean {
-  try {
-    const scriptOrigin = new URL(scriptUrl).origin;
-    const backendOrigin = new URL(backendUrl).origin;
-    return scriptOrigin !== backendOrigin;
-  } catch {
-    // If URL parsing fails, assume it's a WordPress asset
-    return false;
-  }
-}
+// Instances whose first page has finished loading, so later runs are client-side navigations
+const CompletedInstances = new Set<string>();
 
 export interface BodyScriptsProps {
-  scripts: EnqueuedScript[];
+  /** Scripts from assetsByUri, ideally passed through resolveEnqueuedScripts on the server */
+  scripts: ResolvedEnqueuedScript[];
   instance?: string;
+  /**
+   * Maps the WooCommerce store page paths in wc-settings to frontend routes, tried before the
+   * instance's configured routes. Accepts functions, which withWCR cannot pass to the client.
+   */
+  routes?: RouteMap;
+  /** Milliseconds to wait for each script before moving on. 0 waits indefinitely. Defaults to 30000. */
+  timeout?: number;
+  /** Timeouts for specific handles, e.g. { 'wc-blocks-checkout': 60000 } */
+  timeouts?: Record<string, number>;
+  /** Called when a script fails or times out. Loading continues with the next script. */
+  onError?: (status: ScriptStatus) => void;
+  /** CSP nonce for the injected scripts. Defaults to the ScriptLoader's nonce, then the nonce of the document's scripts. */
+  nonce?: string;
   waitFor: boolean;
   onComplete?: () => void;
 }
 
 /**
- * Client component that loads footer/body scripts sequentially.
- * Scripts are sorted by dependencies and loaded one at a time.
- * Each script must complete before the next begins loading.
+ * Client component that loads footer/body scripts in dependency order.
+ * All scripts are preloaded in parallel on mount, then executed one at a time.
+ * Each script must complete before the next is inserted.
+ *
+ * Preloading starts right away, so footer scripts download while HeadScripts run.
+ * Execution only begins after waitFor prop is true (HeadScripts complete).
  *
- * Only begins loading after waitFor prop is true (HeadScripts complete).
+ * When scripts changes on client-side navigation, only handles that are not loaded yet
+ * are added. Loaded handles whose inline code differs on the new page get it re-run,
+ * wc-settings is processed again, and, when anything was injected, DOMContentLoaded and
+ * window load are re-dispatched for view scripts that initialize on them.
+ * bodyScriptsLoaded of the ScriptLoader is reset until onComplete sets it again.
  *
  * Based on Next.js Script component patterns but modified for sequential dependency loading.
  */
-export function BodyScripts({ scripts, instance = 'default', waitFor, onComplete }: BodyScriptsProps) {
-  const hasLoadedRef = useRef(false);
+export function BodyScripts({
+  scripts,
+  instance = getDefaultInstanceSlug(),
+  routes = [],
+  waitFor,
+  timeout = 30000,
+  timeouts,
+  onError,
+  nonce,
+  onComplete,
+}: BodyScriptsProps) {
+  const { setScriptStatus, setBodyScriptsLoaded, nonce: loaderNonce } = useScriptsReady(instance);
+  const loadedScriptsRef = useRef<string | null>(null);
+  // Scripts seen in an earlier render, see below
+  const [seenScriptsKey, setSeenScriptsKey] = useState<string | null>(null);
 
   useEffect(() => {
-    // Wait for HeadScripts to complete before starting
-    if (!waitFor) {
+    // Download footer scripts while waiting, execution below stays in order
+    preloadScripts(
+      scripts
+        .filter((script) => script.location === ScriptLoadingGroupEnum.FOOTER)
+        .filter((script) => !LoadCache.has(getScriptCacheKey(script, instance)))
+        .map((script) => getScriptSrc(script, instance)),
+      nonce ?? loaderNonce ?? getDocumentNonce()
+    );
+  }, [scripts, nonce, loaderNonce, instance]);
+
+  useEffect(() => {
+    // Filter for footer scripts only
+    const footerScripts = scripts.filter(
+      script => script.location === ScriptLoadingGroupEnum.FOOTER
+    );
+
+    // Prevent double execution in strict mode, run again when navigation brings new scripts
+    const scriptsKey = getScriptsKey(footerScripts, instance);
+    if (loadedScriptsRef.current === scriptsKey) {
       return;
     }
 
-    // Prevent double execution in strict mode
-    if (hasLoadedRef.current) {
+    // On navigation, waitFor is still true from the previous page until HeadScripts resets it.
+    // Wait a render so the reset applies before footer scripts start.
+    if (loadedScriptsRef.current !== null && seenScriptsKey !== scriptsKey) {
+      // A new page's footer scripts are not loaded yet, onComplete sets the readiness again
+      setBodyScriptsLoaded(false);
+      setSeenScriptsKey(scriptsKey);
       return;
     }
-    hasLoadedRef.current = true;
 
-    // Filter for footer scripts only
-    const footerScripts = scripts.filter(
-      script => script.location === ScriptLoadingGroupEnum.FOOTER
-    );
+    // Wait for HeadScripts to complete before starting
+    if (!waitFor) {
+      return;
+    }
+    loadedScriptsRef.current = scriptsKey;
 
-    if (footerScripts.length === 0) {
-      // No footer scripts, trigger DOMContentLoaded and complete
-      triggerDOMContentLoaded();
+    const scriptNonce = nonce ?? loaderNonce ?? getDocumentNonce();
+
+    // Whether this run injected a script or re-ran inline code
+    let injected = false;
+
+    const complete = () => {
+      // After the first page, view scripts only need the events again when something was injected
+      const isNavigation = CompletedInstances.has(instance);
+      if (!isNavigation || injected) {
+        triggerDOMContentLoaded();
+        // The browser only fires load for the first page
+        if (isNavigation) {
+          triggerWindowLoad();
+        }
+      }
+      CompletedInstances.add(instance);
       if (onComplete) {
         onComplete();
       }
+    };
+
+    if (footerScripts.length === 0) {
+      // No footer scripts, trigger DOMContentLoaded and complete
+      complete();
       return;
     }
 
@@ -137,59 +149,32 @@ export function BodyScripts({ scripts, instance = 'default', waitFor, onComplete
     const sortedScripts = sortScriptsByDependencies(footerScripts);
 
     let currentIndex = 0;
-    let backendUrl: string | null = null;
-
-    // Fetch backend URL before loading scripts
-    getBackendUrl(instance)
-      .then(url => {
-        backendUrl = url;
-        loadNextScript();
-      })
-      .catch(error => {
-        console.error('[BodyScripts] Failed to get backend URL, loading scripts anyway:', error);
-        // Continue without backend URL check (will proxy all scripts)
-        loadNextScript();
-      });
 
     const loadNextScript = () => {
       if (currentIndex >= sortedScripts.length) {
         // All scripts loaded, trigger DOMContentLoaded and call onComplete
-        triggerDOMContentLoaded();
-        if (onComplete) {
-          onComplete();
-        }
+        complete();
         return;
       }
 
       const script = sortedScripts[currentIndex];
       currentIndex++;
 
-      // Skip if already loaded
-      const cacheKey = script.id || script.handle || script.src || `inline-${currentIndex}`;
-      if (LoadCache.has(cacheKey)) {
+      // Skip if already loaded, unless this page's inline code differs
+      const cacheKey = getScriptCacheKey(script, instance, `inline-${currentIndex}`);
+      const inlineCode = JSON.stringify([script.extraData, script.before, script.after]);
+      const handle = script.handle || `inline-${currentIndex}`;
+      const isLoaded = LoadCache.has(cacheKey);
+      if (isLoaded && InlineCache.get(cacheKey) === inlineCode) {
+        setScriptStatus(createLoadedStatus(handle));
         loadNextScript();
         return;
       }
+      InlineCache.set(cacheKey, inlineCode);
+      injected = true;
 
-      // Transform src URL
-      let src = '';
-      if (script.src) {
-        // Check if script is external (different origin from WordPress backend)
-        if (backendUrl && isExternalScript(script.src, backendUrl)) {
-          // External script - load directly without proxy
-          src = script.src;
-        } else {
-          // WordPress asset - proxy through Next.js
-          const path = extractPath(script.src);
-          const isInternalRoute = /^\/wp-(?:includes|admin)\//;
-
-          if (isInternalRoute.test(path)) {
-            src = `/atx/${instance}/wp-internal-assets${path}`;
-          } else {
-            src = `/atx/${instance}/wp-assets${path}`;
-          }
-        }
-      }
+      // Resolve src URL (external scripts load directly, WordPress assets are proxied)
+      const src = getScriptSrc(script, instance);
 
       // Handle after script
       let afterScript: string | undefined;
@@ -199,11 +184,13 @@ export function BodyScripts({ scripts, instance = 'default', waitFor, onComplete
 
       // Create and inject extraData script
       if (script.extraData) {
-        const extraEl = document.createElement('script');
-        extraEl.id = `${script.handle}-extra`;
         // Replace proxy placeholders in extraData (e.g., for Stripe Express Checkout params)
-        extraEl.textContent = replaceProxyPlaceholders(script.extraData, instance);
-        document.body.appendChild(extraEl);
+        injectInlineScript(
+          `${script.handle}-extra`,
+          replaceProxyPlaceholders(script.extraData, instance),
+          document.body,
+          scriptNonce
+        );
       }
 
       // Create and inject before script
@@ -212,14 +199,11 @@ export function BodyScripts({ scripts, instance = 'default', waitFor, onComplete
         beforeScript = Array.isArray(script.before) ? script.before.join(' ') : script.before;
       }
       if (beforeScript) {
-        const beforeEl = document.createElement('script');
-        beforeEl.id = `${script.handle}-before`;
-        beforeEl.textContent = beforeScript;
-        document.body.appendChild(beforeEl);
+        injectInlineScript(`${script.handle}-before`, beforeScript, document.body, scriptNonce);
 
         // Process wc-settings after its before script loads
         if (script.handle === 'wc-settings') {
-          processWcSettings(instance);
+          processWcSettings(instance, [...routes, ...getRouteMap(instance)]);
         }
       }
 
@@ -227,21 +211,23 @@ export function BodyScripts({ scripts, instance = 'default', waitFor, onComplete
       const onScriptLoad = () => {
         // Inject after script if present
         if (afterScript) {
-          const afterEl = document.createElement('script');
-          afterEl.id = `${script.handle}-after`;
-          afterEl.textContent = afterScript;
-          document.body.appendChild(afterEl);
+          injectInlineScript(`${script.handle}-after`, afterScript, document.body, scriptNonce);
         }
 
         LoadCache.add(cacheKey);
+        setScriptStatus(createLoadedStatus(handle));
         loadNextScript();
       };
 
-      if (src) {
+      if (isLoaded) {
+        // Main script already ran on an earlier page, only its inline code is re-run
+        onScriptLoad();
+      } else if (src) {
         // External script
         const el = document.createElement('script');
         el.id = script.handle as string;
-        el.src = src;
+        applyNonce(el, scriptNonce);
+        setScriptSrc(el, src);
 
         // Respect async/defer for footer scripts
         if (script.strategy === ScriptLoadingStrategyEnum.ASYNC) {
@@ -250,12 +236,38 @@ export function BodyScripts({ scripts, instance = 'default', waitFor, onComplete
           el.defer = true;
         }
 
-        el.addEventListener('load', onScriptLoad);
-        el.addEventListener('error', (e) => {
-          console.error(`[BodyScripts] Failed to load script: ${script.handle}`, e);
-          // Continue loading next script even on error
-          LoadCache.add(cacheKey);
-          loadNextScript();
+        const scriptTimeout = timeouts?.[handle] ?? timeout;
+        watchScriptLoad(el, {
+          handle,
+          timeout: scriptTimeout,
+          onStatus: (status) => {
+            // Also covers a script that arrives after its timeout
+            if (status.state === 'loaded') {
+              LoadCache.add(cacheKey);
+            }
+            setScriptStatus(status);
+          },
+          onSettled: (status) => {
+            if (status.state === 'loaded') {
+              onScriptLoad();
+              return;
+            }
+
+            if (status.state === 'failed') {
+              console.error(`[BodyScripts] Failed to load script: ${handle}`);
+              // Not cached, so a later page can retry it
+              el.remove();
+            } else {
+              console.error(`[BodyScripts] Timed out loading script after ${scriptTimeout}ms: ${handle}`);
+            }
+
+            if (onError) {
+              onError(status);
+            }
+
+            // Continue loading next script even on error
+            loadNextScript();
+          },
         });
 
         document.body.appendChild(el);
@@ -263,25 +275,14 @@ export function BodyScripts({ scripts, instance = 'default', waitFor, onComplete
         // Inline script or no src
         // Already handled by extraData and before scripts above
         // Just mark as loaded and continue
-        LoadCache.add(cacheKey);
-        loadNextScript();
+        onScriptLoad();
       }
     };
 
-    // Note: loadNextScript() is now called from the getBackendUrl() promise
-  }, [scripts, waitFor, onComplete, instance]);
+    // Start loading the first script
+    loadNextScript();
+  }, [scripts, waitFor, seenScriptsKey, onComplete, onError, timeout, timeouts, nonce, loaderNonce, setScriptStatus, setBodyScriptsLoaded, instance, routes]);
 
   // Render nothing - this is a client-only side effect component
   return null;
 }
-
-/**
- * Triggers DOMContentLoaded event for scripts that depend on it.
- * This allows WordPress view scripts that listen for DOMContentLoaded to execute.
- */
-function triggerDOMContentLoaded() {
-  if (typeof window !== 'undefined' && document.readyState !== 'loading') {
-    const event = new Event('DOMContentLoaded', { bubbles: true, cancelable: true });
-    document.dispatchEvent(event);
-  }
-}
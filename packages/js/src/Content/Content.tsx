@@ -1,45 +1,170 @@
-import React, { FC } from 'react';
-import { getWPInstance } from '@/config/getWPInstance';
+import React, { ComponentType, FC, ReactNode } from 'react';
+import { getAllWPInstances, getWPInstance } from '@/config/getWPInstance';
+import { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+import { getRouteMap } from '@/config/getRouteMap';
+import { RouteMap } from '@/utils/mapRoute';
 import { parseHtml, CustomParser } from '@/utils/parseHtml';
 import { createUrlRewritingParser } from '@/parsers/urlRewritingParser';
+import { createBlockRendererParser, BlockRenderers } from '@/parsers/blockRendererParser';
+import { createImageParser, ContentImageComponent } from '@/parsers/imageParser';
+import { createAttributeRewritingParser, AttributeRewrites, UnrewrittenAttribute } from '@/parsers/attributeRewritingParser';
+import { createSanitizingParser, SanitizeOptions, StrippedContent } from '@/parsers/sanitizingParser';
+import { createScriptCollectingParser, ContentScript } from '@/parsers/scriptCollectingParser';
+import { normalizeHtml, HtmlFix } from '@/utils/normalizeHtml';
+import { assignHeadingIds } from '@/utils/getContentOutline';
+import { renderBlocks, BlockComponents, ContentBlock } from './renderBlocks';
 
 
 export interface ContentProps {
-  content: string;
+  /** WordPress HTML content. Either content or blocks is required. */
+  content?: string;
+  /** Parsed block tree, rendered with blockComponents and falling back to each block's HTML */
+  blocks?: ContentBlock[];
+  /** React components rendered in place of blocks in the block tree, keyed by block name */
+  blockComponents?: BlockComponents;
   instance?: string;
+  /** Maps WordPress paths to frontend routes, tried before the instance's configured routes */
+  routes?: RouteMap;
   parser?: CustomParser;
   linksAs?: FC<JSX.IntrinsicElements['a']>
+  /** Component rendered in place of WordPress media library images, e.g. next/image */
+  imagesAs?: ContentImageComponent;
+  /** Loads WordPress media through the /atx/:slug/wp-assets proxy */
+  proxyImages?: boolean;
+  /** Rewrites media, form and data-* URLs. true uses DEFAULT_ATTRIBUTE_REWRITES. */
+  rewriteAttributes?: boolean | AttributeRewrites;
+  /** Removes elements, attributes and URL schemes outside an allowlist. true uses the default allowlists. */
+  sanitize?: boolean | SanitizeOptions;
+  /** Called with everything the sanitizer removed, when anything was removed */
+  onSanitize?: (stripped: StrippedContent[]) => void;
+  /**
+   * Client component that executes the scripts found in the content, usually a 'use client'
+   * wrapper around ContentScripts. Without it, scripts are rendered but never run.
+   * Receives the instance, so the wrapper can pass it on to ContentScripts.
+   */
+  scriptsAs?: ComponentType<{ scripts: ContentScript[]; instance: string }>;
+  /** Adds IDs to h2-h6 headings without one, matching the IDs from getContentOutline */
+  headingIds?: boolean;
+  /** React components rendered in place of matching blocks, keyed by block name or class name */
+  blockRenderers?: BlockRenderers;
 }
 
-/**
- * Fixes invalid HTML structures commonly output by WordPress/WooCommerce.
- * Specifically fixes tables with <tr> directly under <table> by wrapping in <tbody>.
- */
-function fixInvalidHtml(html: string): string {
-  // Fix tables missing tbody wrapper
-  // Matches: <table...><tr or <table...>\s*<tr
-  // Replaces with: <table...><tbody><tr
-  return html.replace(
-    /(<table[^>]*>)(\s*)(<tr[\s>])/gi,
-    '$1$2<tbody>$3'
-  ).replace(
-    /(<\/table>)/gi,
-    '</tbody>$1'
-  );
-}
-
-export function Content({ content, parser, instance = 'default', linksAs = 'a' as unknown as FC<JSX.IntrinsicElements['a']> }: ContentProps) {
-  const fixedContent = fixInvalidHtml(content);
-
+export function Content({ content = '', blocks, blockComponents, parser, instance = getDefaultInstanceSlug(), routes = [], linksAs = 'a' as unknown as FC<JSX.IntrinsicElements['a']>, imagesAs, proxyImages = false, rewriteAttributes = false, sanitize = false, onSanitize, scriptsAs: ScriptsComponent, headingIds = false, blockRenderers }: ContentProps) {
   // Check if formatPermalinks is enabled (defaults to true)
   const formatPermalinks = process.env.NEXTPRESS_FORMAT_PERMALINKS !== 'false';
+  const routeMap = [...routes, ...getRouteMap(instance)];
 
   // Get URL rewriting parser if formatPermalinks is enabled
   let urlRewritingParser: CustomParser | undefined;
   if (formatPermalinks) {
     const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
-    urlRewritingParser = createUrlRewritingParser(wpHomeUrl, wpSiteUrl, linksAs);
+    // Links to the other configured instances are rewritten with their own routes
+    const linkedInstances = Object.entries(getAllWPInstances())
+      .filter(([slug]) => slug !== instance)
+      .map(([slug, linked]) => ({ wpHomeUrl: linked.wpHomeUrl, wpSiteUrl: linked.wpSiteUrl, routes: getRouteMap(slug) }));
+    urlRewritingParser = createUrlRewritingParser(wpHomeUrl, wpSiteUrl, linksAs, routeMap, linkedInstances);
+  }
+
+  // Get image parser if an image component or media proxying is requested
+  let imageParser: CustomParser | undefined;
+  if (imagesAs || proxyImages) {
+    const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
+    imageParser = createImageParser({ ImageComponent: imagesAs, instance, wpHomeUrl, wpSiteUrl, proxyMedia: proxyImages });
+  }
+
+  // Get sanitizer, which must run before all other content parsers
+  const stripped: StrippedContent[] = [];
+  const sanitizingParser = sanitize
+    ? createSanitizingParser(sanitize === true ? {} : sanitize, (item) => stripped.push(item))
+    : undefined;
+
+  // Get attribute rewriting pass, which must run before the other parsers
+  let attributeRewritingParser: CustomParser | undefined;
+  const unrewritten: UnrewrittenAttribute[] = [];
+  if (rewriteAttributes) {
+    const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
+    attributeRewritingParser = createAttributeRewritingParser({
+      instance,
+      wpHomeUrl,
+      wpSiteUrl,
+      rewrites: rewriteAttributes === true ? undefined : rewriteAttributes,
+      routes: routeMap,
+      onUnrewritten: (attribute) => unrewritten.push(attribute),
+    });
+  }
+
+  // Collect scripts for the client, after sanitization has removed disallowed ones
+  const scripts: ContentScript[] = [];
+  let scriptCollectingParser: CustomParser | undefined;
+  if (ScriptsComponent) {
+    const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
+    scriptCollectingParser = createScriptCollectingParser(
+      { instance, wpHomeUrl, wpSiteUrl },
+      (script) => scripts.push(script)
+    );
+  }
+
+  // Registered block renderers take precedence, their children are parsed as usual
+  const blockRendererParser = blockRenderers ? createBlockRendererParser(blockRenderers) : undefined;
+
+  // Invalid nestings are fixed on the parsed tree to avoid hydration mismatches
+  const fixes: HtmlFix[] = [];
+  const usedIds = new Set<string>();
+  const normalize = (html: string, context?: string) => {
+    const nodes = normalizeHtml(html, (fix) => fixes.push(fix), context);
+    if (headingIds) {
+      assignHeadingIds(nodes, usedIds);
+    }
+    return nodes;
+  };
+
+  let rendered: ReactNode;
+  if (blocks) {
+    rendered = renderBlocks(blocks, {
+      components: blockComponents,
+      parse: (html, innerBlockParser, context) => parseHtml(
+        normalize(html, context),
+        innerBlockParser,
+        sanitizingParser,
+        scriptCollectingParser,
+        attributeRewritingParser,
+        blockRendererParser,
+        imageParser,
+        urlRewritingParser,
+        parser
+      ),
+    });
+  } else {
+    rendered = parseHtml(normalize(content), sanitizingParser, scriptCollectingParser, attributeRewritingParser, blockRendererParser, imageParser, urlRewritingParser, parser);
+  }
+
+  // Parsing is synchronous, so the reports are complete here
+  if (onSanitize && stripped.length > 0) {
+    onSanitize(stripped);
+  }
+
+  if (process.env.NODE_ENV === 'development' && fixes.length > 0) {
+    console.warn(
+      `[Content] Fixed ${fixes.length} invalid HTML nesting(s) that would cause hydration errors:`,
+      fixes.map(({ type, element }) => `${type} (<${element}>)`).join(', ')
+    );
+  }
+
+  if (process.env.NODE_ENV === 'development' && unrewritten.length > 0) {
+    console.warn(
+      `[Content] Kept ${unrewritten.length} WordPress URL(s) without a proxy route, which still point at the WordPress instance:`,
+      unrewritten.map(({ element, attribute, value }) => `<${element} ${attribute}="${value}">`).join(', ')
+    );
+  }
+
+  if (ScriptsComponent && scripts.length > 0) {
+    return (
+      <div>
+        {rendered}
+        <ScriptsComponent scripts={scripts} instance={instance} />
+      </div>
+    );
   }
 
-  return (<div>{parseHtml(fixedContent, urlRewritingParser, parser)}</div>);
+  return (<div>{rendered}</div>);
 }
\ No newline at end of file
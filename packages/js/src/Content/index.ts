@@ -1 +1,2 @@
 export * from './Content';
+export type { ContentBlock, BlockComponentProps, BlockComponents } from './renderBlocks';
@@ -0,0 +1,155 @@
+import React from 'react';
+import { render, screen } from '../testing/utils';
+import { Content } from '.';
+import { BlockComponentProps, ContentBlock } from './renderBlocks';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+function Heading({ attributes, innerHTML }: BlockComponentProps) {
+  return <h2 data-testid="heading" data-level={String(attributes.level)} data-html={innerHTML} />;
+}
+
+function Columns({ name, children }: BlockComponentProps) {
+  return <div data-testid="columns" data-name={name}>{children}</div>;
+}
+
+// parse_blocks() output for a group with a paragraph and a heading
+const groupBlock: ContentBlock = {
+  name: 'core/group',
+  attributes: {},
+  innerHTML: '\n<div class="wp-block-group">\n\n</div>\n',
+  innerContent: ['\n<div class="wp-block-group">', null, '\n\n', null, '</div>\n'],
+  innerBlocks: [
+    {
+      name: 'core/paragraph',
+      attributes: {},
+      innerHTML: '<p>Visit <a href="https://wp.example.com/about">about</a></p>',
+      innerContent: ['<p>Visit <a href="https://wp.example.com/about">about</a></p>'],
+      innerBlocks: [],
+    },
+    {
+      name: 'core/heading',
+      attributes: { level: 3 },
+      innerHTML: '<h3 class="wp-block-heading">Title</h3>',
+      innerContent: ['<h3 class="wp-block-heading">Title</h3>'],
+      innerBlocks: [],
+    },
+  ],
+};
+
+describe('Content block tree', () => {
+  beforeEach(() => {
+    mockGetWPInstance.mockReturnValue({
+      wpDomain: 'wp.example.com',
+      wpProtocol: 'https',
+      wpHomeUrl: 'https://wp.example.com',
+      wpSiteUrl: 'https://wp.example.com',
+      wpGraphqlUrl: 'https://wp.example.com/graphql',
+    });
+    mockGetAllWPInstances.mockReturnValue({});
+  });
+
+  it('should render blocks from their HTML when no component is registered', () => {
+    const { container } = render(<Content blocks={[groupBlock]} />);
+
+    const group = container.querySelector('.wp-block-group');
+    expect(group).toContainElement(screen.getByText('Title'));
+    expect(screen.getByText('Title').tagName).toBe('H3');
+    expect(group?.querySelector('nextpress-inner-block')).toBeNull();
+  });
+
+  it('should render registered components in place of nested blocks', () => {
+    const { container } = render(<Content blocks={[groupBlock]} blockComponents={{ 'core/heading': Heading }} />);
+
+    const heading = screen.getByTestId('heading');
+    expect(container.querySelector('.wp-block-group')).toContainElement(heading);
+    expect(heading).toHaveAttribute('data-level', '3');
+    expect(heading).toHaveAttribute('data-html', '<h3 class="wp-block-heading">Title</h3>');
+    expect(screen.getByText('Visit')).toBeInTheDocument();
+  });
+
+  it('should keep inner blocks in document order', () => {
+    const { container } = render(<Content blocks={[groupBlock]} />);
+
+    const children = Array.from(container.querySelector('.wp-block-group')?.children || []);
+    expect(children.map(child => child.tagName)).toEqual(['P', 'H3']);
+  });
+
+  it('should pass rendered inner blocks to registered components', () => {
+    render(<Content blocks={[groupBlock]} blockComponents={{ 'core/group': Columns, 'core/heading': Heading }} />);
+
+    const columns = screen.getByTestId('columns');
+    expect(columns).toHaveAttribute('data-name', 'core/group');
+    expect(columns).toContainElement(screen.getByTestId('heading'));
+    expect(columns.querySelector('p')).toHaveTextContent('Visit about');
+  });
+
+  it('should rewrite links in block HTML', () => {
+    render(<Content blocks={[groupBlock]} />);
+
+    expect(screen.getByText('about')).toHaveAttribute('href', '/about');
+  });
+
+  it('should render freeform HTML blocks', () => {
+    render(<Content blocks={[{ name: null, innerHTML: '<p>Classic content</p>' }]} />);
+
+    expect(screen.getByText('Classic content').tagName).toBe('P');
+  });
+
+  it('should render innerHTML as-is when innerContent is missing', () => {
+    const block: ContentBlock = {
+      name: 'core/quote',
+      innerHTML: '<blockquote class="wp-block-quote"><p>Quoted</p></blockquote>',
+      innerBlocks: [{ name: 'core/paragraph', innerHTML: '<p>Quoted</p>' }],
+    };
+
+    render(<Content blocks={[block]} />);
+
+    expect(screen.getAllByText('Quoted')).toHaveLength(1);
+  });
+
+  it('should apply block renderers to block HTML', () => {
+    function Group({ children }: { children?: React.ReactNode }) {
+      return <section data-testid="group">{children}</section>;
+    }
+
+    render(<Content blocks={[groupBlock]} blockRenderers={{ 'core/group': Group }} />);
+
+    expect(screen.getByTestId('group')).toContainElement(screen.getByText('Title'));
+  });
+
+  it('should render list items of a list block inside the list', () => {
+    // parse_blocks() output for a core/list with core/list-item inner blocks
+    const listBlock: ContentBlock = {
+      name: 'core/list',
+      attributes: {},
+      innerHTML: '\n<ul class="wp-block-list"></ul>\n',
+      innerContent: ['\n<ul class="wp-block-list">', null, '\n\n', null, '</ul>\n'],
+      innerBlocks: [
+        { name: 'core/list-item', attributes: {}, innerHTML: '<li>One</li>', innerContent: ['<li>One</li>'], innerBlocks: [] },
+        { name: 'core/list-item', attributes: {}, innerHTML: '<li>Two</li>', innerContent: ['<li>Two</li>'], innerBlocks: [] },
+      ],
+    };
+
+    const { container } = render(<Content blocks={[listBlock]} />);
+
+    const list = container.querySelector('ul.wp-block-list');
+    expect(container.querySelectorAll('ul')).toHaveLength(1);
+    expect(Array.from(list?.children || []).map((item) => item.outerHTML)).toEqual(['<li>One</li>', '<li>Two</li>']);
+  });
+
+  it('should still wrap list items of blocks outside a list', () => {
+    const { container } = render(<Content blocks={[{ name: null, innerHTML: '<li>Stray</li>' }]} />);
+
+    expect(container.querySelector('ul > li')).toHaveTextContent('Stray');
+  });
+});
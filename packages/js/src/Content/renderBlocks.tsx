@@ -0,0 +1,119 @@
+import React, { ComponentType, Fragment, ReactNode } from 'react';
+import { DOMNode, Element } from 'html-react-parser';
+import type { CustomParser } from '@/utils/parseHtml';
+
+/**
+ * A parsed Gutenberg block, as returned by parse_blocks() or WPGraphQL block plugins
+ */
+export interface ContentBlock {
+  /** Block name, e.g. 'core/paragraph'. null for freeform HTML between blocks. */
+  name: string | null;
+  /** Block attributes from the block comment delimiter */
+  attributes?: Record<string, unknown> | null;
+  /** Nested blocks */
+  innerBlocks?: ContentBlock[] | null;
+  /** The block's HTML. Without innerContent, it is expected to include the inner blocks' markup. */
+  innerHTML?: string | null;
+  /** HTML chunks with a null placeholder where each inner block goes, as returned by parse_blocks() */
+  innerContent?: Array<string | null> | null;
+}
+
+/**
+ * Props passed to a block component
+ */
+export interface BlockComponentProps {
+  /** Block name, e.g. 'core/image' */
+  name: string;
+  /** Block attributes */
+  attributes: Record<string, unknown>;
+  /** The block's HTML, without inner blocks when innerContent is available */
+  innerHTML: string;
+  /** The block's inner blocks, rendered */
+  children?: ReactNode;
+}
+
+/**
+ * Maps block names to the React components that render them
+ */
+export type BlockComponents = Record<string, ComponentType<BlockComponentProps>>;
+
+export interface RenderBlocksOptions {
+  components?: BlockComponents;
+  /**
+   * Renders block HTML. innerBlockParser must run first to place the rendered inner blocks.
+   * context is the tag name of the element an inner block is rendered in, e.g. 'ul' for list items.
+   */
+  parse: (html: string, innerBlockParser: CustomParser, context?: string) => ReactNode;
+}
+
+/**
+ * Placeholder element marking where an inner block goes in its parent's HTML
+ */
+const INNER_BLOCK_TAG = 'nextpress-inner-block';
+
+/**
+ * Gets the block's HTML with placeholders for its inner blocks
+ */
+function getBlockHtml(block: ContentBlock): string {
+  if (!block.innerContent) {
+    return block.innerHTML || '';
+  }
+
+  let innerBlockIndex = 0;
+  return block.innerContent
+    .map((chunk) => (
+      chunk === null
+        ? `<${INNER_BLOCK_TAG} data-index="${innerBlockIndex++}"></${INNER_BLOCK_TAG}>`
+        : chunk
+    ))
+    .join('');
+}
+
+/**
+ * Renders a block tree.
+ *
+ * Blocks with a registered component are rendered by that component, with their inner blocks
+ * rendered as children. All other blocks are rendered from their HTML, and their inner blocks
+ * are rendered in place, so registered components can be introduced one block at a time.
+ */
+export function renderBlocks(blocks: ContentBlock[], options: RenderBlocksOptions): ReactNode {
+  const { components = {}, parse } = options;
+
+  const renderBlock = (block: ContentBlock, key: number, context?: string): ReactNode => {
+    const innerBlocks = block.innerBlocks || [];
+    const Component = block.name ? components[block.name] : undefined;
+
+    if (Component && block.name) {
+      return (
+        <Component
+          key={key}
+          name={block.name}
+          attributes={block.attributes || {}}
+          innerHTML={block.innerHTML || ''}
+        >
+          {innerBlocks.length > 0 ? innerBlocks.map((innerBlock, index) => renderBlock(innerBlock, index)) : undefined}
+        </Component>
+      );
+    }
+
+    const innerBlockParser: CustomParser = (node: DOMNode): JSX.Element | undefined => {
+      const element = node as Element;
+      if (element.name !== INNER_BLOCK_TAG) {
+        return undefined;
+      }
+
+      // Placeholders at the top level of the HTML are in the same element as this block
+      const parentName = (element.parent as Element | null)?.name ?? context;
+      const innerBlock = innerBlocks[Number(element.attribs['data-index'])];
+      return <Fragment>{innerBlock ? renderBlock(innerBlock, 0, parentName) : null}</Fragment>;
+    };
+
+    return (
+      <Fragment key={key}>
+        {parse(getBlockHtml(block), innerBlockParser, context)}
+      </Fragment>
+    );
+  };
+
+  return blocks.map((block, index) => renderBlock(block, index));
+}
@@ -0,0 +1,105 @@
+import React from 'react';
+import { render, act } from '../testing/utils';
+import { ContentScripts } from './ContentScripts';
+import type { ContentScript } from '../parsers/scriptCollectingParser';
+
+declare global {
+  interface Window {
+    contentScriptOrder?: string[];
+  }
+}
+
+describe('ContentScripts', () => {
+  beforeEach(() => {
+    window.contentScriptOrder = [];
+    document.body.querySelectorAll('script').forEach((el) => el.remove());
+  });
+
+  const scripts: ContentScript[] = [
+    { content: 'window.contentScriptOrder.push("first");', attributes: {} },
+    { src: 'https://cdn.example.com/embed.js', attributes: { id: 'embed' } },
+    { content: 'window.contentScriptOrder.push("last");', attributes: { 'data-block': 'html' } },
+  ];
+
+  it('should not execute scripts before waitFor is true', () => {
+    render(<ContentScripts scripts={scripts} waitFor={false} />);
+
+    expect(window.contentScriptOrder).toEqual([]);
+    expect(document.body.querySelector('script')).toBeNull();
+  });
+
+  it('should wait for ScriptLoader readiness by default', () => {
+    render(<ContentScripts scripts={scripts} />);
+
+    expect(window.contentScriptOrder).toEqual([]);
+  });
+
+  it('should execute scripts in order, waiting for external scripts to load', () => {
+    const onComplete = jest.fn();
+
+    render(<ContentScripts scripts={scripts} waitFor onComplete={onComplete} />);
+
+    expect(window.contentScriptOrder).toEqual(['first']);
+    const external = document.getElementById('embed') as HTMLScriptElement;
+    expect(external.src).toBe('https://cdn.example.com/embed.js');
+    expect(external.async).toBe(false);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    act(() => {
+      external.dispatchEvent(new Event('load'));
+    });
+
+    expect(window.contentScriptOrder).toEqual(['first', 'last']);
+    expect(document.querySelector('script[data-block="html"]')).toBeInTheDocument();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should continue after a script fails to load', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(<ContentScripts scripts={scripts} waitFor />);
+
+    act(() => {
+      document.getElementById('embed')?.dispatchEvent(new Event('error'));
+    });
+
+    expect(window.contentScriptOrder).toEqual(['first', 'last']);
+    expect(consoleError).toHaveBeenCalledWith(
+      '[ContentScripts] Failed to load script: https://cdn.example.com/embed.js',
+      expect.any(Event)
+    );
+    consoleError.mockRestore();
+  });
+
+  it('should keep scripts in order and use its own nonce over copied attributes', () => {
+    render(
+      <ContentScripts
+        scripts={[{ src: 'https://cdn.example.com/async.js', attributes: { id: 'async-embed', async: '', defer: '', nonce: 'wordpress-nonce' } }]}
+        nonce="page-nonce"
+        waitFor
+      />
+    );
+
+    const external = document.getElementById('async-embed') as HTMLScriptElement;
+    expect(external.async).toBe(false);
+    expect(external.hasAttribute('defer')).toBe(false);
+    expect(external.nonce).toBe('page-nonce');
+  });
+
+  it('should execute the scripts of a new page', () => {
+    const shop = [scripts[0]];
+    const { rerender } = render(<ContentScripts scripts={shop} waitFor />);
+    rerender(<ContentScripts scripts={shop} waitFor />);
+    rerender(<ContentScripts scripts={[scripts[2]]} waitFor />);
+
+    expect(window.contentScriptOrder).toEqual(['first', 'last']);
+  });
+
+  it('should not execute the same scripts again for a re-rendered page', () => {
+    const { rerender } = render(<ContentScripts scripts={[scripts[0]]} waitFor />);
+    // e.g. router.refresh() renders the content again and collects equal scripts
+    rerender(<ContentScripts scripts={[{ ...scripts[0], attributes: {} }]} waitFor />);
+
+    expect(window.contentScriptOrder).toEqual(['first']);
+  });
+});
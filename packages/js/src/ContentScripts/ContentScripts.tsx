@@ -0,0 +1,116 @@
+import { useEffect, useRef } from 'react';
+import { useScriptsReady } from '@/ScriptLoader';
+import { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+import { hashString } from '@/utils/hashString';
+import { getDocumentNonce, applyNonce } from '@/utils/nonce';
+import { setScriptSrc, setScriptText } from '@/utils/trustedTypes';
+import type { ContentScript } from '@/parsers/scriptCollectingParser';
+
+export interface ContentScriptsProps {
+  /** Scripts collected from the content by Content */
+  scripts: ContentScript[];
+  /** WordPress instance slug of the ScriptLoader to wait for */
+  instance?: string;
+  /** Starts executing once true. Defaults to ScriptLoader's scriptsReady. */
+  waitFor?: boolean;
+  /** CSP nonce for the executed scripts. Defaults to the ScriptLoader's nonce, then the nonce of the document's scripts. */
+  nonce?: string;
+  onComplete?: () => void;
+}
+
+/**
+ * Attributes set by ContentScripts itself. Copying them from the content would let a script
+ * run out of order, or carry a nonce from the WordPress page instead of this one.
+ */
+const MANAGED_ATTRIBUTES = ['async', 'defer', 'nonce'];
+
+/**
+ * Gets a key for the scripts that only changes when a script does. Each render of a page,
+ * e.g. after router.refresh(), passes a new array with the same scripts.
+ */
+function getContentScriptsKey(scripts: ContentScript[]): string {
+  return hashString(JSON.stringify(scripts.map(({ src, content, attributes }) => [src, content, attributes])));
+}
+
+/**
+ * Client component that executes scripts found in WordPress content, in document order.
+ * External scripts must finish loading before the next script runs, like parser-inserted
+ * scripts in a WordPress page.
+ *
+ * Only begins executing after waitFor is true, so inline scripts can use the
+ * dependencies loaded by HeadScripts and BodyScripts. Runs again when scripts
+ * changes, e.g. for the content of a new page on client-side navigation. Scripts are
+ * compared by content, so re-rendering the same page does not run them twice.
+ */
+export function ContentScripts({
+  scripts,
+  instance = getDefaultInstanceSlug(),
+  waitFor,
+  nonce,
+  onComplete,
+}: ContentScriptsProps) {
+  const { scriptsReady, nonce: loaderNonce } = useScriptsReady(instance);
+  const ready = waitFor ?? scriptsReady;
+  const loadedScriptsRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Wait for HeadScripts and BodyScripts to complete before starting
+    if (!ready) {
+      return;
+    }
+
+    // Prevent double execution in strict mode, run again for a new page's scripts
+    const scriptsKey = getContentScriptsKey(scripts);
+    if (loadedScriptsRef.current === scriptsKey) {
+      return;
+    }
+    loadedScriptsRef.current = scriptsKey;
+
+    const scriptNonce = nonce ?? loaderNonce ?? getDocumentNonce();
+    let currentIndex = 0;
+
+    const loadNextScript = () => {
+      if (currentIndex >= scripts.length) {
+        if (onComplete) {
+          onComplete();
+        }
+        return;
+      }
+
+      const script = scripts[currentIndex];
+      currentIndex++;
+
+      // Scripts created with createElement are async by default, which would break ordering
+      const el = document.createElement('script');
+      el.async = false;
+      Object.entries(script.attributes).forEach(([name, value]) => {
+        if (!MANAGED_ATTRIBUTES.includes(name.toLowerCase())) {
+          el.setAttribute(name, value);
+        }
+      });
+      applyNonce(el, scriptNonce);
+
+      if (script.src) {
+        el.addEventListener('load', loadNextScript);
+        el.addEventListener('error', (e) => {
+          console.error(`[ContentScripts] Failed to load script: ${script.src}`, e);
+          // Continue with the next script even on error
+          loadNextScript();
+        });
+        setScriptSrc(el, script.src);
+        document.body.appendChild(el);
+        return;
+      }
+
+      // Inline scripts execute when appended
+      setScriptText(el, script.content || '');
+      document.body.appendChild(el);
+      loadNextScript();
+    };
+
+    loadNextScript();
+  }, [scripts, ready, nonce, loaderNonce, onComplete]);
+
+  // Render nothing - this is a client-only side effect component
+  return null;
+}
@@ -0,0 +1,2 @@
+export { ContentScripts } from './ContentScripts';
+export type { ContentScriptsProps } from './ContentScripts';
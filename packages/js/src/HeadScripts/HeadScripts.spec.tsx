@@ -0,0 +1,152 @@
+import React from 'react';
+import { render } from '../testing/utils';
+import { HeadScripts } from './HeadScripts';
+import { ScriptLoader } from '../ScriptLoader';
+import { ScriptLoadingGroupEnum } from '../types';
+import type { ResolvedEnqueuedScript } from '../utils/resolveAssetUrl';
+
+function headerScript(handle: string, script: Partial<ResolvedEnqueuedScript> = {}): ResolvedEnqueuedScript {
+  return {
+    id: handle,
+    handle,
+    location: ScriptLoadingGroupEnum.HEADER,
+    resolvedSrc: `/atx/default/wp-assets/${handle}.js`,
+    ...script,
+  };
+}
+
+function loadScript(id: string) {
+  document.getElementById(id)?.dispatchEvent(new Event('load'));
+}
+
+describe('HeadScripts', () => {
+  afterEach(() => {
+    document.head.querySelectorAll('link, script').forEach((el) => el.remove());
+    delete (window as any).pageData;
+  });
+
+  it('should load only new handles after client-side navigation', () => {
+    const onComplete = jest.fn();
+    const shop = [headerScript('head-vendor', { before: ['window.pageData = "shop";'] })];
+    const { rerender } = render(<HeadScripts scripts={shop} onComplete={onComplete} />);
+
+    loadScript('head-vendor');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    const checkout = [
+      headerScript('head-vendor', { before: ['window.pageData = "checkout";'] }),
+      headerScript('head-checkout', { dependencies: [{ id: 'head-vendor', handle: 'head-vendor' }] }),
+    ];
+    rerender(<HeadScripts scripts={checkout} onComplete={onComplete} />);
+
+    expect((window as any).pageData).toBe('checkout');
+    expect(document.querySelectorAll('script#head-vendor')).toHaveLength(1);
+    expect(document.querySelectorAll('script#head-vendor-before')).toHaveLength(1);
+    expect(document.getElementById('head-checkout')).toHaveAttribute('src', '/atx/default/wp-assets/head-checkout.js');
+
+    loadScript('head-checkout');
+    expect(onComplete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load a handle once per instance', () => {
+    const onComplete = jest.fn();
+    render(<HeadScripts scripts={[headerScript('head-hooks', { resolvedSrc: '/atx/shop/wp-assets/hooks.js' })]} instance="shop" />);
+    loadScript('head-hooks');
+
+    render(<HeadScripts scripts={[headerScript('head-hooks', { resolvedSrc: '/atx/blog/wp-assets/hooks.js' })]} instance="blog" onComplete={onComplete} />);
+
+    const blogHooks = document.querySelector('script[src="/atx/blog/wp-assets/hooks.js"]');
+    expect(blogHooks).not.toBeNull();
+    expect(onComplete).not.toHaveBeenCalled();
+
+    blogHooks?.dispatchEvent(new Event('load'));
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  describe('CSP nonce', () => {
+    it('should set the nonce on every element it injects', () => {
+      const scripts = [
+        headerScript('wp-api-fetch', { extraData: 'var apiFetchData = {};', before: ['window.beforeApiFetch = true;'], after: ['window.afterApiFetch = true;'] }),
+      ];
+      render(<HeadScripts scripts={scripts} nonce="abc123" />);
+      loadScript('wp-api-fetch');
+
+      const ids = ['wp-api-fetch-extra', 'wp-api-fetch-before', 'nextpress-config', 'wp-api-fetch', 'wp-api-fetch-after'];
+      ids.forEach((id) => {
+        expect(document.getElementById(id)).toHaveAttribute('nonce', 'abc123');
+      });
+      expect(document.querySelector('link[rel="preload"][href="/atx/default/wp-assets/wp-api-fetch.js"]')).toHaveAttribute('nonce', 'abc123');
+    });
+
+    it('should use the nonce of the ScriptLoader', () => {
+      const scripts = [headerScript('head-loader-nonce')];
+      render(
+        <ScriptLoader scripts={scripts} nonce="from-loader">
+          <HeadScripts scripts={scripts} />
+        </ScriptLoader>
+      );
+
+      expect(document.getElementById('head-loader-nonce')).toHaveAttribute('nonce', 'from-loader');
+    });
+
+    it('should fall back to the nonce of the document', () => {
+      const nextScript = document.createElement('script');
+      nextScript.setAttribute('nonce', 'from-document');
+      document.head.appendChild(nextScript);
+
+      render(<HeadScripts scripts={[headerScript('head-document-nonce')]} />);
+
+      expect(document.getElementById('head-document-nonce')).toHaveAttribute('nonce', 'from-document');
+    });
+  });
+
+  describe('errors', () => {
+    let consoleError: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleError.mockRestore();
+      jest.useRealTimers();
+    });
+
+    it('should report failed scripts and continue with the next one', () => {
+      const onError = jest.fn();
+      const onComplete = jest.fn();
+      const scripts = [headerScript('head-broken'), headerScript('head-next', { dependencies: [{ id: 'head-broken', handle: 'head-broken' }] })];
+      render(<HeadScripts scripts={scripts} onError={onError} onComplete={onComplete} />);
+
+      document.getElementById('head-broken')?.dispatchEvent(new Event('error'));
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ handle: 'head-broken', state: 'failed' }));
+      expect(consoleError).toHaveBeenCalledWith('[HeadScripts] Failed to load script: head-broken');
+      // Removed, so a later page can retry it
+      expect(document.getElementById('head-broken')).toBeNull();
+
+      loadScript('head-next');
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move on when a script times out', () => {
+      jest.useFakeTimers();
+      const onError = jest.fn();
+      const scripts = [headerScript('head-slow'), headerScript('head-after-slow')];
+      render(<HeadScripts scripts={scripts} timeout={5000} timeouts={{ 'head-slow': 1000 }} onError={onError} />);
+
+      jest.advanceTimersByTime(999);
+      expect(document.getElementById('head-after-slow')).toBeNull();
+
+      jest.advanceTimersByTime(1);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ handle: 'head-slow', state: 'timed-out' }));
+      expect(consoleError).toHaveBeenCalledWith('[HeadScripts] Timed out loading script after 1000ms: head-slow');
+      expect(document.getElementById('head-after-slow')).not.toBeNull();
+
+      // A late load does not restart the chain
+      loadScript('head-slow');
+      expect(document.querySelectorAll('script#head-after-slow')).toHaveLength(1);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+});
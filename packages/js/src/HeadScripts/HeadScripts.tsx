@@ -1,53 +1,83 @@
 import { useEffect, useRef } from 'react';
-import { EnqueuedScript, ScriptLoadingGroupEnum } from '../types';
+import { ScriptLoadingGroupEnum } from '../types';
 import { sortScriptsByDependencies } from '../utils/sortScriptsByDependencies';
+import { getScriptSrc, ResolvedEnqueuedScript } from '../utils/resolveAssetUrl';
 import { injectNextPressConfig } from '../compatibility/wordpress';
-
-// Global cache to track which scripts have been loaded
+import { getDefaultInstanceSlug } from '../config/getDefaultInstanceSlug';
+import { preloadScripts } from '../utils/preloadScripts';
+import { createLoadedStatus, watchScriptLoad } from '../utils/watchScriptLoad';
+import { useScriptsReady, ScriptStatus } from '../ScriptLoader';
+import { injectInlineScript } from '../utils/injectInlineScript';
+import { getScriptCacheKey, getScriptsKey } from '../utils/getScriptCacheKey';
+import { getDocumentNonce, applyNonce } from '../utils/nonce';
+import { setScriptSrc } from '../utils/trustedTypes';
+
+// Global cache to track which scripts have been loaded, keyed per instance
 // Prevents duplicate loads across component remounts
 const LoadCache = new Set<string>();
 
-/**
- * Extracts the path from a URL, removing the protocol and domain
- */
-function extractPath(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.pathname;
-  } catch {
-    // If URL parsing fails, assume it's already a path
-    return url;
-  }
-}
+// Inline code (extraData, before, after) last injected per script
+// Lets client-side navigation re-run inline code that differs between pages
+const InlineCache = new Map<string, string>();
 
 export interface HeadScriptsProps {
-  scripts: EnqueuedScript[];
+  /** Scripts from assetsByUri, ideally passed through resolveEnqueuedScripts on the server */
+  scripts: ResolvedEnqueuedScript[];
   instance?: string;
+  /** Milliseconds to wait for each script before moving on. 0 waits indefinitely. Defaults to 30000. */
+  timeout?: number;
+  /** Timeouts for specific handles, e.g. { 'wc-blocks-checkout': 60000 } */
+  timeouts?: Record<string, number>;
+  /** Called when a script fails or times out. Loading continues with the next script. */
+  onError?: (status: ScriptStatus) => void;
+  /** CSP nonce for the injected scripts. Defaults to the ScriptLoader's nonce, then the nonce of the document's scripts. */
+  nonce?: string;
   onComplete?: () => void;
 }
 
 /**
- * Client component that loads header scripts sequentially.
- * Scripts are sorted by dependencies and loaded one at a time.
- * Each script must complete before the next begins loading.
+ * Client component that loads header scripts in dependency order.
+ * All scripts are preloaded in parallel, then executed one at a time.
+ * Each script must complete before the next is inserted.
+ *
+ * When scripts changes on client-side navigation, only handles that are not loaded yet
+ * are added. Loaded handles whose inline code differs on the new page get it re-run.
+ * headScriptsLoaded of the ScriptLoader is reset until onComplete sets it again.
  *
  * Based on Next.js Script component patterns but modified for sequential dependency loading.
  */
-export function HeadScripts({ scripts, instance = 'default', onComplete }: HeadScriptsProps) {
-  const hasLoadedRef = useRef(false);
+export function HeadScripts({
+  scripts,
+  instance = getDefaultInstanceSlug(),
+  timeout = 30000,
+  timeouts,
+  onError,
+  nonce,
+  onComplete,
+}: HeadScriptsProps) {
+  const { setScriptStatus, setHeadScriptsLoaded, nonce: loaderNonce } = useScriptsReady(instance);
+  const loadedScriptsRef = useRef<string | null>(null);
 
   useEffect(() => {
-    // Prevent double execution in strict mode
-    if (hasLoadedRef.current) {
-      return;
-    }
-    hasLoadedRef.current = true;
-
     // Filter for header scripts only
     const headerScripts = scripts.filter(
       script => script.location === ScriptLoadingGroupEnum.HEADER
     );
 
+    // Prevent double execution in strict mode, run again when navigation brings new scripts
+    const scriptsKey = getScriptsKey(headerScripts, instance);
+    if (loadedScriptsRef.current === scriptsKey) {
+      return;
+    }
+
+    // A new page's header scripts are not loaded yet, onComplete sets the readiness again
+    if (loadedScriptsRef.current !== null) {
+      setHeadScriptsLoaded(false);
+    }
+    loadedScriptsRef.current = scriptsKey;
+
+    const scriptNonce = nonce ?? loaderNonce ?? getDocumentNonce();
+
     if (headerScripts.length === 0) {
       // No header scripts, complete immediately
       if (onComplete) {
@@ -59,6 +89,14 @@ export function HeadScripts({ scripts, instance = 'default', onComplete }: HeadS
     // Sort scripts by dependencies
     const sortedScripts = sortScriptsByDependencies(headerScripts);
 
+    // Download everything up front, execution below stays in order
+    preloadScripts(
+      sortedScripts
+        .filter((script) => !LoadCache.has(getScriptCacheKey(script, instance)))
+        .map((script) => getScriptSrc(script, instance)),
+      scriptNonce
+    );
+
     let currentIndex = 0;
 
     const loadNextScript = () => {
@@ -73,25 +111,20 @@ export function HeadScripts({ scripts, instance = 'default', onComplete }: HeadS
       const script = sortedScripts[currentIndex];
       currentIndex++;
 
-      // Skip if already loaded
-      const cacheKey = script.id || script.handle || script.src || `inline-${currentIndex}`;
-      if (LoadCache.has(cacheKey)) {
+      // Skip if already loaded, unless this page's inline code differs
+      const cacheKey = getScriptCacheKey(script, instance, `inline-${currentIndex}`);
+      const inlineCode = JSON.stringify([script.extraData, script.before, script.after]);
+      const handle = script.handle || `inline-${currentIndex}`;
+      const isLoaded = LoadCache.has(cacheKey);
+      if (isLoaded && InlineCache.get(cacheKey) === inlineCode) {
+        setScriptStatus(createLoadedStatus(handle));
         loadNextScript();
         return;
       }
+      InlineCache.set(cacheKey, inlineCode);
 
-      // Transform src URL
-      let src = '';
-      if (script.src) {
-        const path = extractPath(script.src);
-        const isInternalRoute = /^\/wp-(?:includes|admin)\//;
-
-        if (isInternalRoute.test(path)) {
-          src = `/atx/${instance}/wp-internal-assets${path}`;
-        } else {
-          src = `/atx/${instance}/wp-assets${path}`;
-        }
-      }
+      // Resolve src URL (external scripts load directly, WordPress assets are proxied)
+      const src = getScriptSrc(script, instance);
 
       // Get afterScript if it exists
       let afterScript: string | undefined;
@@ -101,10 +134,7 @@ export function HeadScripts({ scripts, instance = 'default', onComplete }: HeadS
 
       // Create and inject extraData script
       if (script.extraData) {
-        const extraEl = document.createElement('script');
-        extraEl.id = `${script.handle}-extra`;
-        extraEl.textContent = script.extraData;
-        document.head.appendChild(extraEl);
+        injectInlineScript(`${script.handle}-extra`, script.extraData, document.head, scriptNonce);
       }
 
       // Create and inject before script
@@ -113,45 +143,70 @@ export function HeadScripts({ scripts, instance = 'default', onComplete }: HeadS
         beforeScript = Array.isArray(script.before) ? script.before.join(' ') : script.before;
       }
       if (beforeScript) {
-        const beforeEl = document.createElement('script');
-        beforeEl.id = `${script.handle}-before`;
-        beforeEl.textContent = beforeScript;
-        document.head.appendChild(beforeEl);
+        injectInlineScript(`${script.handle}-before`, beforeScript, document.head, scriptNonce);
       }
 
       // Inject NextPress config before wp-api-fetch loads
       if (script.handle === 'wp-api-fetch') {
-        injectNextPressConfig(instance);
+        injectNextPressConfig(instance, scriptNonce);
       }
 
       // Create main script element
       const onScriptLoad = () => {
         // Inject after script if present
         if (afterScript) {
-          const afterEl = document.createElement('script');
-          afterEl.id = `${script.handle}-after`;
-          afterEl.textContent = afterScript;
-          document.head.appendChild(afterEl);
+          injectInlineScript(`${script.handle}-after`, afterScript, document.head, scriptNonce);
         }
 
         LoadCache.add(cacheKey);
+        setScriptStatus(createLoadedStatus(handle));
         loadNextScript();
       };
 
-      if (src) {
+      if (isLoaded) {
+        // Main script already ran on an earlier page, only its inline code is re-run
+        onScriptLoad();
+      } else if (src) {
         // External script
         const el = document.createElement('script');
         el.id = script.handle as string;
-        el.src = src;
+        applyNonce(el, scriptNonce);
+        setScriptSrc(el, src);
         // Force blocking - no async or defer for header scripts
         el.async = false;
 
-        el.addEventListener('load', onScriptLoad);
-        el.addEventListener('error', (e) => {
-          console.error(`[HeadScripts] Failed to load script: ${script.handle}`, e);
-          // Continue loading next script even on error
-          LoadCache.add(cacheKey);
-          loadNextScript();
+        const scriptTimeout = timeouts?.[handle] ?? timeout;
+        watchScriptLoad(el, {
+          handle,
+          timeout: scriptTimeout,
+          onStatus: (status) => {
+            // Also covers a script that arrives after its timeout
+            if (status.state === 'loaded') {
+              LoadCache.add(cacheKey);
+            }
+            setScriptStatus(status);
+          },
+          onSettled: (status) => {
+            if (status.state === 'loaded') {
+              onScriptLoad();
+              return;
+            }
+
+            if (status.state === 'failed') {
+              console.error(`[HeadScripts] Failed to load script: ${handle}`);
+              // Not cached, so a later page can retry it
+              el.remove();
+            } else {
+              console.error(`[HeadScripts] Timed out loading script after ${scriptTimeout}ms: ${handle}`);
+            }
+
+            if (onError) {
+              onError(status);
+            }
+
+            // Continue loading next script even on error
+            loadNextScript();
+          },
         });
 
         document.head.appendChild(el);
@@ -159,14 +214,13 @@ export function HeadScripts({ scripts, instance = 'default', onComplete }: HeadS
         // Inline script or no src
         // Already handled by extraData and before scripts above
         // Just mark as loaded and continue
-        LoadCache.add(cacheKey);
-        loadNextScript();
+        onScriptLoad();
       }
     };
 
     // Start loading the first script
     loadNextScript();
-  }, [scripts, onComplete, instance]);
+  }, [scripts, onComplete, onError, timeout, timeouts, nonce, loaderNonce, setScriptStatus, setHeadScriptsLoaded, instance]);
 
   // Render nothing - this is a client-only side effect component
   return null;
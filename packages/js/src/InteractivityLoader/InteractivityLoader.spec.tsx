@@ -0,0 +1,199 @@
+import React from 'react';
+import { render, act } from '../testing/utils';
+import { InteractivityLoader } from './InteractivityLoader';
+import { Content } from '../Content';
+import { DEFAULT_ALLOWED_ELEMENTS } from '../parsers/sanitizingParser';
+import { importModule } from '../utils/importModule';
+import * as getWPInstanceModule from '../config/getWPInstance';
+import type { InteractivityData } from '../fetchByUri';
+
+jest.mock('../utils/importModule');
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockImportModule = importModule as jest.MockedFunction<typeof importModule>;
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+// Each test uses its own runtime URL, since loaded runtimes are cached per URL
+function createData(name: string, state: Record<string, unknown> = {}): InteractivityData {
+  return {
+    state,
+    config: { 'core/router': { navigationMode: 'regionBased' } },
+    runtimeSrc: `https://wp.example.com/wp-includes/js/dist/script-modules/interactivity/${name}.min.js`,
+  };
+}
+
+function flushPromises() {
+  return act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+}
+
+describe('InteractivityLoader', () => {
+  let domContentLoaded: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    document.body.querySelectorAll('script').forEach((el) => el.remove());
+    domContentLoaded = jest.fn();
+    document.addEventListener('DOMContentLoaded', domContentLoaded);
+  });
+
+  afterEach(() => {
+    document.removeEventListener('DOMContentLoaded', domContentLoaded);
+  });
+
+  it('should not load the runtime before waitFor is true', () => {
+    render(<InteractivityLoader data={createData('waiting')} waitFor={false} />);
+
+    expect(mockImportModule).not.toHaveBeenCalled();
+    expect(document.getElementById('wp-interactivity-data')).toBeNull();
+  });
+
+  it('should do nothing without Interactivity API data', () => {
+    render(<InteractivityLoader data={null} waitFor />);
+
+    expect(mockImportModule).not.toHaveBeenCalled();
+    expect(domContentLoaded).not.toHaveBeenCalled();
+  });
+
+  it('should write the server data, import the runtime and hydrate', async () => {
+    const onReady = jest.fn();
+    const data = createData('initial', { 'core/navigation': { isMenuOpen: false } });
+    mockImportModule.mockResolvedValue({ store: jest.fn() });
+
+    render(<InteractivityLoader data={data} waitFor onReady={onReady} />);
+
+    const expected = { state: data.state, config: data.config };
+    const moduleData = document.getElementById('wp-script-module-data-@wordpress/interactivity');
+    expect(moduleData).toHaveAttribute('type', 'application/json');
+    expect(JSON.parse(moduleData?.textContent as string)).toEqual(expected);
+    expect(JSON.parse(document.getElementById('wp-interactivity-data')?.textContent as string)).toEqual(expected);
+
+    await flushPromises();
+
+    expect(mockImportModule).toHaveBeenCalledWith(
+      '/atx/default/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/initial.min.js'
+    );
+    expect(domContentLoaded).toHaveBeenCalledTimes(1);
+    expect(onReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('should import a runtime resolved by resolveInteractivity unchanged', async () => {
+    mockImportModule.mockResolvedValue({});
+    const runtimeSrc = '/atx/shop/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/resolved.min.js?ver=6.7';
+
+    render(<InteractivityLoader data={{ state: {}, config: {}, runtimeSrc }} instance="shop" waitFor />);
+    await flushPromises();
+
+    expect(mockImportModule).toHaveBeenCalledWith(runtimeSrc);
+  });
+
+  it('should import additional modules after the runtime', async () => {
+    mockImportModule.mockResolvedValue({});
+
+    render(
+      <InteractivityLoader
+        data={createData('modules')}
+        instance="shop"
+        modules={['https://wp.example.com/wp-content/plugins/tabs/view.js']}
+        waitFor
+      />
+    );
+    await flushPromises();
+
+    expect(mockImportModule.mock.calls.map(([src]) => src)).toEqual([
+      '/atx/shop/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/modules.min.js',
+      '/atx/shop/wp-assets/wp-content/plugins/tabs/view.js',
+    ]);
+  });
+
+  it('should merge state into the loaded runtime on navigation', async () => {
+    const store = jest.fn();
+    mockImportModule.mockResolvedValue({ store });
+
+    const { rerender } = render(
+      <InteractivityLoader data={createData('navigation', { 'core/search': { query: '' } })} waitFor />
+    );
+    await flushPromises();
+
+    expect(store).not.toHaveBeenCalled();
+
+    const next = createData('navigation', { 'core/search': { query: 'hoodie' }, 'core/image': { lightbox: false } });
+    rerender(<InteractivityLoader data={next} waitFor />);
+    await flushPromises();
+
+    expect(mockImportModule).toHaveBeenCalledTimes(1);
+    expect(store).toHaveBeenCalledWith('core/search', { state: { query: 'hoodie' } });
+    expect(store).toHaveBeenCalledWith('core/image', { state: { lightbox: false } });
+    expect(domContentLoaded).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log and retry when the runtime fails to load', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const data = createData('failing');
+    mockImportModule.mockRejectedValueOnce(new Error('404'));
+
+    const { rerender } = render(<InteractivityLoader data={data} waitFor />);
+    await flushPromises();
+
+    expect(consoleError).toHaveBeenCalledWith(
+      '[InteractivityLoader] Failed to load the Interactivity API runtime: /atx/default/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/failing.min.js',
+      expect.any(Error)
+    );
+    expect(domContentLoaded).not.toHaveBeenCalled();
+
+    mockImportModule.mockResolvedValue({});
+    rerender(<InteractivityLoader data={{ ...data }} waitFor />);
+    await flushPromises();
+
+    expect(mockImportModule).toHaveBeenCalledTimes(2);
+    expect(domContentLoaded).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+
+  describe('Content integration', () => {
+    const content = '<nav data-wp-interactive="core/navigation" data-wp-context=\'{"isOpen":false}\'>'
+      + '<button data-wp-on--click="actions.toggle" data-wp-bind--aria-expanded="context.isOpen">Menu</button>'
+      + '</nav>';
+
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    function expectDirectives(container: HTMLElement) {
+      const nav = container.querySelector('nav');
+      expect(nav).toHaveAttribute('data-wp-interactive', 'core/navigation');
+      expect(nav).toHaveAttribute('data-wp-context', '{"isOpen":false}');
+      const button = container.querySelector('button');
+      expect(button).toHaveAttribute('data-wp-on--click', 'actions.toggle');
+      expect(button).toHaveAttribute('data-wp-bind--aria-expanded', 'context.isOpen');
+    }
+
+    it('should keep Interactivity API directives', () => {
+      const { container } = render(<Content content={content} />);
+
+      expectDirectives(container);
+    });
+
+    it('should keep Interactivity API directives when sanitizing', () => {
+      const { container } = render(
+        <Content content={content} sanitize={{ allowedElements: [...DEFAULT_ALLOWED_ELEMENTS, 'nav', 'button'] }} />
+      );
+
+      expectDirectives(container);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { useEffect, useRef } from 'react';
+import { useScriptsReady } from '@/ScriptLoader';
+import { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+import { resolveAssetUrl } from '@/utils/resolveAssetUrl';
+import { importModule } from '@/utils/importModule';
+import { triggerDOMContentLoaded } from '@/utils/triggerDOMContentLoaded';
+import { setScriptText } from '@/utils/trustedTypes';
+import type { InteractivityData } from '@/fetchByUri';
+
+/**
+ * The parts of the @wordpress/interactivity module used by InteractivityLoader
+ */
+type InteractivityRuntime = {
+  store?: (namespace: string, definition: { state: unknown }) => unknown;
+};
+
+// Runtime imports by URL, shared across remounts and client navigations
+const RuntimeCache = new Map<string, Promise<InteractivityRuntime>>();
+
+// Script elements the runtime reads its initial state and config from.
+// WordPress 6.7+ uses the script module data, earlier versions wp-interactivity-data.
+const DATA_ELEMENT_IDS = ['wp-script-module-data-@wordpress/interactivity', 'wp-interactivity-data'];
+
+export interface InteractivityLoaderProps {
+  /** Interactivity API data from fetchAssetsByUri or fetchPageByUri, ideally passed through resolveInteractivity on the server */
+  data: InteractivityData | null | undefined;
+  instance?: string;
+  /** Starts loading once true. Defaults to ScriptLoader's scriptsReady. */
+  waitFor?: boolean;
+  /** Additional module URLs to import after the runtime, e.g. block view modules */
+  modules?: string[];
+  onReady?: () => void;
+}
+
+function writeDataElements({ state, config }: InteractivityData) {
+  const json = JSON.stringify({ state, config });
+
+  DATA_ELEMENT_IDS.forEach((id) => {
+    let el = document.getElementById(id) as HTMLScriptElement | null;
+    if (!el) {
+      el = document.createElement('script');
+      el.id = id;
+      el.setAttribute('type', 'application/json');
+      document.body.appendChild(el);
+    }
+    setScriptText(el, json);
+  });
+}
+
+function loadRuntime(src: string): Promise<InteractivityRuntime> {
+  let runtime = RuntimeCache.get(src);
+  if (!runtime) {
+    runtime = importModule<InteractivityRuntime>(src);
+    RuntimeCache.set(src, runtime);
+  }
+  return runtime;
+}
+
+/**
+ * Client component that starts the WordPress Interactivity API for the content on the page.
+ *
+ * Writes the server-rendered state and config where the runtime expects them, imports the
+ * runtime from the WordPress instance and dispatches DOMContentLoaded so the runtime hydrates
+ * the `data-wp-interactive` regions rendered by Content. On client navigations the runtime is
+ * already loaded, so the new state is merged into the existing stores before hydrating again.
+ *
+ * Only begins loading after waitFor is true, so view scripts and content are in place.
+ */
+export function InteractivityLoader({
+  data,
+  instance = getDefaultInstanceSlug(),
+  waitFor,
+  modules = [],
+  onReady,
+}: InteractivityLoaderProps) {
+  const { scriptsReady } = useScriptsReady(instance);
+  const ready = waitFor ?? scriptsReady;
+  const loadedDataRef = useRef<InteractivityData | null>(null);
+
+  useEffect(() => {
+    if (!ready || !data || !data.runtimeSrc) {
+      return;
+    }
+
+    // Prevent double execution in strict mode
+    if (loadedDataRef.current === data) {
+      return;
+    }
+    loadedDataRef.current = data;
+
+    writeDataElements(data);
+
+    // Keeps a runtimeSrc already resolved by resolveInteractivity
+    const src = resolveAssetUrl(data.runtimeSrc, { instance });
+    const isLoaded = RuntimeCache.has(src);
+
+    loadRuntime(src)
+      .then(async (runtime) => {
+        if (isLoaded && runtime.store) {
+          // The runtime only reads the data elements once, so merge state from later pages
+          Object.entries(data.state).forEach(([namespace, state]) => {
+            runtime.store?.(namespace, { state });
+          });
+        }
+
+        for (const module of modules) {
+          const moduleSrc = resolveAssetUrl(module, { instance });
+          await importModule(moduleSrc).catch((error) => {
+            console.error(`[InteractivityLoader] Failed to load module: ${moduleSrc}`, error);
+          });
+        }
+
+        triggerDOMContentLoaded();
+        if (onReady) {
+          onReady();
+        }
+      })
+      .catch((error) => {
+        RuntimeCache.delete(src);
+        console.error(`[InteractivityLoader] Failed to load the Interactivity API runtime: ${src}`, error);
+      });
+  }, [data, ready, instance, modules, onReady]);
+
+  // Render nothing - this is a client-only side effect component
+  return null;
+}
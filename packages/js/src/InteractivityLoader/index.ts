@@ -0,0 +1,2 @@
+export { InteractivityLoader } from './InteractivityLoader';
+export type { InteractivityLoaderProps } from './InteractivityLoader';
@@ -0,0 +1,157 @@
+import React, { lazy } from 'react';
+import { render, act, screen } from '../testing/utils';
+import { Island, createIsland } from './Island';
+import type { BlockRendererProps } from '../parsers/blockRendererParser';
+import { Content } from '../Content';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+function Tabs({ classNames, children }: BlockRendererProps) {
+  return <div data-testid="tabs" className={classNames.join(' ')}>{children}</div>;
+}
+
+const blockProps: BlockRendererProps = {
+  match: 'core/tabs',
+  tagName: 'section',
+  attributes: { className: 'wp-block-tabs' },
+  classNames: ['wp-block-tabs'],
+  children: <p>Tab content</p>,
+};
+
+describe('Island', () => {
+  let observers: Array<{ callback: IntersectionObserverCallback; options?: IntersectionObserverInit; disconnect: jest.Mock }>;
+
+  beforeEach(() => {
+    observers = [];
+    (window as any).IntersectionObserver = jest.fn((callback: IntersectionObserverCallback, options?: IntersectionObserverInit) => {
+      const observer = { callback, options, observe: jest.fn(), disconnect: jest.fn() };
+      observers.push(observer);
+      return observer;
+    });
+  });
+
+  afterEach(() => {
+    delete (window as any).IntersectionObserver;
+    delete (window as any).requestIdleCallback;
+    delete (window as any).cancelIdleCallback;
+  });
+
+  it('should render the static markup until the block is visible', () => {
+    const { container } = render(<Island {...blockProps} component={Tabs} rootMargin="200px" />);
+
+    expect(container.querySelector('section.wp-block-tabs[data-island="core/tabs"]')).toHaveTextContent('Tab content');
+    expect(screen.queryByTestId('tabs')).toBeNull();
+    expect(observers[0].options).toEqual({ rootMargin: '200px' });
+
+    act(() => {
+      observers[0].callback([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+    });
+
+    expect(screen.getByTestId('tabs')).toHaveTextContent('Tab content');
+    expect(container.querySelector('section')).toBeNull();
+    expect(observers[0].disconnect).toHaveBeenCalled();
+  });
+
+  it('should activate when the browser is idle', () => {
+    let idleCallback: (() => void) | undefined;
+    (window as any).requestIdleCallback = jest.fn((callback: () => void) => {
+      idleCallback = callback;
+      return 1;
+    });
+    (window as any).cancelIdleCallback = jest.fn();
+
+    render(<Island {...blockProps} component={Tabs} hydrate="idle" idleTimeout={500} />);
+
+    expect(window.requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), { timeout: 500 });
+    expect(screen.queryByTestId('tabs')).toBeNull();
+
+    act(() => {
+      idleCallback?.();
+    });
+
+    expect(screen.getByTestId('tabs')).toBeInTheDocument();
+  });
+
+  it('should fall back to a timeout without requestIdleCallback', () => {
+    jest.useFakeTimers();
+
+    render(<Island {...blockProps} component={Tabs} hydrate="idle" />);
+    expect(screen.queryByTestId('tabs')).toBeNull();
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(screen.getByTestId('tabs')).toBeInTheDocument();
+    jest.useRealTimers();
+  });
+
+  it('should activate immediately with load', () => {
+    render(<Island {...blockProps} component={Tabs} hydrate="load" />);
+
+    expect(screen.getByTestId('tabs')).toBeInTheDocument();
+  });
+
+  it('should keep the static markup while a lazy component loads', async () => {
+    let resolveModule: (module: { default: typeof Tabs }) => void = () => {};
+    const LazyTabs = lazy(() => new Promise<{ default: typeof Tabs }>((resolve) => {
+      resolveModule = resolve;
+    }));
+
+    const { container } = render(<Island {...blockProps} component={LazyTabs} hydrate="load" />);
+
+    expect(container.querySelector('section[data-island]')).toHaveTextContent('Tab content');
+
+    await act(async () => {
+      resolveModule({ default: Tabs });
+    });
+
+    expect(await screen.findByTestId('tabs')).toBeInTheDocument();
+  });
+
+  describe('createIsland', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    it('should name the renderer after the component', () => {
+      expect(createIsland(Tabs).displayName).toBe('Island(Tabs)');
+    });
+
+    it('should render matching blocks as islands in Content', () => {
+      const TabsIsland = createIsland(Tabs, { hydrate: 'visible' });
+
+      const { container } = render(
+        <Content
+          content='<div class="wp-block-tabs is-style-pills"><p>First tab</p></div>'
+          blockRenderers={{ 'core/tabs': TabsIsland }}
+        />
+      );
+
+      expect(container.querySelector('div[data-island="core/tabs"].is-style-pills')).toHaveTextContent('First tab');
+
+      act(() => {
+        observers[0].callback([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+      });
+
+      expect(screen.getByTestId('tabs')).toHaveClass('wp-block-tabs', 'is-style-pills');
+      expect(screen.getByTestId('tabs')).toHaveTextContent('First tab');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import type { BlockRenderer, BlockRendererProps } from '@/parsers/blockRendererParser';
+
+/**
+ * When an island replaces its static markup with the interactive component
+ *
+ * - load: right after hydration
+ * - idle: once the browser is idle (requestIdleCallback)
+ * - visible: once the block scrolls into view (IntersectionObserver)
+ */
+export type IslandHydration = 'load' | 'idle' | 'visible';
+
+export interface IslandOptions {
+  /** When to activate the component. Defaults to 'visible'. */
+  hydrate?: IslandHydration;
+  /** Margin around the viewport for 'visible', e.g. '200px' to activate shortly before the block is reached */
+  rootMargin?: string;
+  /** Longest wait for 'idle' in milliseconds. Defaults to 2000. */
+  idleTimeout?: number;
+}
+
+export interface IslandProps extends BlockRendererProps, IslandOptions {
+  /** Interactive component rendered in place of the block once activated, e.g. a React.lazy component */
+  component: BlockRenderer;
+}
+
+/**
+ * Client component that renders a block's server markup and swaps in an interactive
+ * component once the block is visible or the browser is idle.
+ *
+ * Until then, the markup is plain HTML without WordPress view scripts, so the component's
+ * code can be loaded on demand with React.lazy. The static markup stays as the Suspense
+ * fallback while it loads.
+ */
+export function Island({
+  component: Component,
+  hydrate = 'visible',
+  rootMargin,
+  idleTimeout = 2000,
+  ...blockProps
+}: IslandProps) {
+  const { tagName, attributes, match, children } = blockProps;
+  const ref = useRef<HTMLElement>(null);
+  const [active, setActive] = useState(false);
+
+  useEffect(() => {
+    if (active) {
+      return;
+    }
+
+    const activate = () => setActive(true);
+
+    if (hydrate === 'visible' && ref.current && typeof IntersectionObserver !== 'undefined') {
+      const observer = new IntersectionObserver((entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer.disconnect();
+          activate();
+        }
+      }, { rootMargin });
+      observer.observe(ref.current);
+      return () => observer.disconnect();
+    }
+
+    if (hydrate === 'idle' && typeof window.requestIdleCallback === 'function') {
+      const handle = window.requestIdleCallback(activate, { timeout: idleTimeout });
+      return () => window.cancelIdleCallback(handle);
+    }
+
+    if (hydrate === 'idle') {
+      // Safari has no requestIdleCallback
+      const handle = window.setTimeout(activate, 1);
+      return () => window.clearTimeout(handle);
+    }
+
+    // 'load', or 'visible' without IntersectionObserver support
+    activate();
+    return undefined;
+  }, [active, hydrate, rootMargin, idleTimeout]);
+
+  const staticMarkup = React.createElement(tagName, { ...attributes, ref, 'data-island': match }, children);
+
+  if (!active) {
+    return staticMarkup;
+  }
+
+  return (
+    <Suspense fallback={staticMarkup}>
+      <Component {...blockProps} />
+    </Suspense>
+  );
+}
+
+/**
+ * Creates a block renderer that renders the component as an island. Call it in a
+ * 'use client' module and register the result in Content's blockRenderers:
+ *
+ * ```tsx
+ * 'use client';
+ * export const TabsIsland = createIsland(lazy(() => import('./Tabs')), { hydrate: 'visible' });
+ * ```
+ */
+export function createIsland(component: BlockRenderer, options: IslandOptions = {}): BlockRenderer {
+  function IslandRenderer(props: BlockRendererProps) {
+    return <Island {...props} {...options} component={component} />;
+  }
+  IslandRenderer.displayName = `Island(${component.displayName || component.name || 'Component'})`;
+
+  return IslandRenderer;
+}
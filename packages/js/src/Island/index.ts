@@ -0,0 +1,2 @@
+export { Island, createIsland } from './Island';
+export type { IslandProps, IslandOptions, IslandHydration } from './Island';
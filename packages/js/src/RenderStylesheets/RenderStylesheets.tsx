@@ -5,11 +5,16 @@ import React, {
 } from 'react';
 
 import { EnqueuedStylesheet } from "@/types";
+import { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+import { getWPInstance } from '@/config/getWPInstance';
+import { resolveAssetUrl } from '@/utils/resolveAssetUrl';
+import { hashString } from '@/utils/hashString';
 
 export interface StyleProps {
   id?: string;
   precedence?: 'low'|'medium'|'high';
   href?: string;
+  nonce?: string;
   children?: ReactNode;
 }
 
@@ -18,56 +23,51 @@ const Style = 'style' as unknown as FC<StyleProps>;
 type RenderStylesheetsProps = {
   stylesheets: EnqueuedStylesheet[];
   instance?: string;
+  /** CSP nonce for the stylesheets and inline styles, e.g. read from the x-nonce header set by proxyByWCR */
+  nonce?: string;
 };
 
 /**
- * Extracts the path from a URL, removing the protocol and domain
+ * Server component that renders stylesheets with React's stylesheet precedence.
+ *
+ * Inline before/after styles are keyed by their content, since React dedupes styles by href.
+ * A page whose inline styles differ, e.g. after client-side navigation, adds them instead of
+ * reusing the styles of the first page.
  */
-function extractPath(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.pathname;
-  } catch {
-    // If URL parsing fails, assume it's already a path
-    return url;
-  }
-}
-
-export function RenderStylesheets({ stylesheets, instance = 'default' }: RenderStylesheetsProps) {
-  const isInternalRoute = /^\/wp-(?:includes|admin)\//;
+export function RenderStylesheets({ stylesheets, instance = getDefaultInstanceSlug(), nonce }: RenderStylesheetsProps) {
+  const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
 
   return (
     <Fragment>
       {stylesheets.map((stylesheet) => {
-        const { handle, src } = stylesheet;
+        const { handle, src, version } = stylesheet;
 
         // Determine the correct href for the stylesheet
-        let href = '';
-        if (src) {
-          // Extract path from full URL if needed
-          const path = extractPath(src);
-
-          if (isInternalRoute.test(path)) {
-            // Internal WordPress path (e.g., /wp-includes/css/... or /wp-admin/css/...)
-            href = `/atx/${instance}/wp-internal-assets${path}`;
-          } else {
-            // WordPress content path (e.g., /wp-content/...)
-            href = `/atx/${instance}/wp-assets${path}`;
-          }
-        }
+        // (proxied for WordPress assets, direct for external stylesheets)
+        const href = src ? resolveAssetUrl(src, { instance, wpHomeUrl, wpSiteUrl, version }) : '';
         const Link = 'link' as unknown as FC<JSX.IntrinsicElements['link'] & { precedence: string }>;
         return (
           <Fragment key={handle}>
             {stylesheet.before && (
-              <Style id={`${handle}-before`} precedence="low" href={href || undefined}>
+              <Style
+                id={`${handle}-before`}
+                precedence="low"
+                nonce={nonce}
+                href={`${handle}-before-${hashString(stylesheet.before.join(''))}`}
+              >
                 {stylesheet.before.join('')}
               </Style>
             )}
             {href && (
-              <Link rel="stylesheet" href={href} id={handle as string} precedence="medium" />
+              <Link rel="stylesheet" href={href} id={handle as string} precedence="medium" nonce={nonce} />
             )}
             {stylesheet.after && (
-              <Style id={`${handle}-after`} precedence="high" href={href || undefined}>
+              <Style
+                id={`${handle}-after`}
+                precedence="high"
+                nonce={nonce}
+                href={`${handle}-after-${hashString(stylesheet.after.join(''))}`}
+              >
                 {stylesheet.after.join('')}
               </Style>
             )}
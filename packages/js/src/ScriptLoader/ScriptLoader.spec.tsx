@@ -0,0 +1,192 @@
+import React from 'react';
+import { render, screen, act } from '../testing/utils';
+import { ScriptLoader, useScriptsReady, useScriptStatus } from './ScriptLoader';
+import { HeadScripts } from '../HeadScripts';
+import { BodyScripts } from '../BodyScripts';
+import { ScriptLoadingGroupEnum } from '../types';
+import type { ResolvedEnqueuedScript } from '../utils/resolveAssetUrl';
+
+function script(handle: string, location: ScriptLoadingGroupEnum, dependencies: string[] = []): ResolvedEnqueuedScript {
+  return {
+    id: handle,
+    handle,
+    location,
+    dependencies: dependencies.map((dependency) => ({ id: dependency, handle: dependency })),
+    resolvedSrc: `/atx/default/wp-assets/${handle}.js`,
+  };
+}
+
+function CheckoutButton() {
+  const status = useScriptStatus('status-checkout');
+  return (
+    <button disabled={status?.state !== 'loaded'} data-state={status?.state ?? 'none'}>
+      Place order
+    </button>
+  );
+}
+
+function loadScript(id: string) {
+  act(() => {
+    document.getElementById(id)?.dispatchEvent(new Event('load'));
+  });
+}
+
+describe('ScriptLoader', () => {
+  afterEach(() => {
+    document.head.querySelectorAll('link, script').forEach((el) => el.remove());
+    document.body.querySelectorAll('script').forEach((el) => el.remove());
+  });
+
+  it('should report the status of each script by handle', () => {
+    const scripts = [
+      script('status-vendor', ScriptLoadingGroupEnum.HEADER),
+      script('status-checkout', ScriptLoadingGroupEnum.FOOTER),
+    ];
+
+    render(
+      <ScriptLoader scripts={scripts}>
+        <HeadScripts scripts={scripts} />
+        <BodyScripts scripts={scripts} waitFor />
+        <CheckoutButton />
+      </ScriptLoader>
+    );
+
+    const button = screen.getByRole('button');
+    expect(button).toHaveAttribute('data-state', 'pending');
+    expect(button).toBeDisabled();
+
+    loadScript('status-checkout');
+    expect(button).toHaveAttribute('data-state', 'loaded');
+    expect(button).toBeEnabled();
+  });
+
+  it('should record load timings', () => {
+    let vendorStatus: ReturnType<typeof useScriptStatus>;
+    function VendorStatus() {
+      vendorStatus = useScriptStatus('timing-vendor');
+      return null;
+    }
+
+    const scripts = [script('timing-vendor', ScriptLoadingGroupEnum.HEADER)];
+    render(
+      <ScriptLoader scripts={scripts}>
+        <HeadScripts scripts={scripts} />
+        <VendorStatus />
+      </ScriptLoader>
+    );
+
+    loadScript('timing-vendor');
+
+    expect(vendorStatus!).toEqual({
+      handle: 'timing-vendor',
+      state: 'loaded',
+      startTime: expect.any(Number),
+      endTime: expect.any(Number),
+      duration: expect.any(Number),
+    });
+    expect(vendorStatus!.endTime).toBeGreaterThanOrEqual(vendorStatus!.startTime);
+  });
+
+  it('should be undefined outside a ScriptLoader', () => {
+    function Status() {
+      return <span>{useScriptStatus('missing') ? 'found' : 'none'}</span>;
+    }
+
+    render(<Status />);
+    expect(screen.getByText('none')).toBeInTheDocument();
+  });
+
+  it('should keep the readiness of several instances apart', () => {
+    const shopScripts = [{ ...script('multi-jquery', ScriptLoadingGroupEnum.HEADER), resolvedSrc: '/atx/shop/wp-assets/jquery.js' }];
+    const blogScripts = [{ ...script('multi-jquery', ScriptLoadingGroupEnum.HEADER), resolvedSrc: '/atx/blog/wp-assets/jquery.js' }];
+
+    function Status({ label, instance }: { label: string; instance?: string }) {
+      const { headScriptsLoaded } = useScriptsReady(instance);
+      const status = useScriptStatus('multi-jquery', instance);
+      return <span data-testid={label}>{`${status?.state} ${headScriptsLoaded}`}</span>;
+    }
+
+    function Loader({ instance, scripts }: { instance: string; scripts: ResolvedEnqueuedScript[] }) {
+      const { setHeadScriptsLoaded } = useScriptsReady(instance);
+      return <HeadScripts scripts={scripts} instance={instance} onComplete={() => setHeadScriptsLoaded(true)} />;
+    }
+
+    render(
+      <ScriptLoader scripts={shopScripts} instance="shop">
+        <Loader instance="shop" scripts={shopScripts} />
+        <ScriptLoader scripts={blogScripts} instance="blog">
+          <Loader instance="blog" scripts={blogScripts} />
+          <Status label="blog" />
+          <Status label="shop-from-blog" instance="shop" />
+        </ScriptLoader>
+      </ScriptLoader>
+    );
+
+    // The same handle loads once per instance
+    expect(document.querySelectorAll('script#multi-jquery')).toHaveLength(2);
+
+    act(() => {
+      document.querySelector('script[src="/atx/shop/wp-assets/jquery.js"]')?.dispatchEvent(new Event('load'));
+    });
+
+    expect(screen.getByTestId('shop-from-blog')).toHaveTextContent('loaded true');
+    expect(screen.getByTestId('blog')).toHaveTextContent('pending false');
+
+    act(() => {
+      document.querySelector('script[src="/atx/blog/wp-assets/jquery.js"]')?.dispatchEvent(new Event('load'));
+    });
+
+    expect(screen.getByTestId('blog')).toHaveTextContent('loaded true');
+  });
+
+  it('should wait for a new page\'s header scripts before loading its footer scripts', () => {
+    function Scripts({ scripts }: { scripts: ResolvedEnqueuedScript[] }) {
+      const { headScriptsLoaded, setHeadScriptsLoaded } = useScriptsReady();
+      return (
+        <>
+          <HeadScripts scripts={scripts} onComplete={() => setHeadScriptsLoaded(true)} />
+          <BodyScripts scripts={scripts} waitFor={headScriptsLoaded} />
+        </>
+      );
+    }
+
+    const shop = [script('ready-shop-head', ScriptLoadingGroupEnum.HEADER), script('ready-shop-body', ScriptLoadingGroupEnum.FOOTER)];
+    const { rerender } = render(<ScriptLoader scripts={shop}><Scripts scripts={shop} /></ScriptLoader>);
+    loadScript('ready-shop-head');
+    loadScript('ready-shop-body');
+
+    const checkout = [script('ready-checkout-head', ScriptLoadingGroupEnum.HEADER), script('ready-checkout-body', ScriptLoadingGroupEnum.FOOTER)];
+    rerender(<ScriptLoader scripts={checkout}><Scripts scripts={checkout} /></ScriptLoader>);
+
+    expect(document.getElementById('ready-checkout-head')).not.toBeNull();
+    expect(document.getElementById('ready-checkout-body')).toBeNull();
+
+    loadScript('ready-checkout-head');
+    expect(document.getElementById('ready-checkout-body')).not.toBeNull();
+  });
+
+  it('should reset scriptsReady until a new page\'s footer scripts are loaded', () => {
+    function Scripts({ scripts }: { scripts: ResolvedEnqueuedScript[] }) {
+      const { scriptsReady, setHeadScriptsLoaded, setBodyScriptsLoaded } = useScriptsReady();
+      return (
+        <>
+          <HeadScripts scripts={scripts} onComplete={() => setHeadScriptsLoaded(true)} />
+          <BodyScripts scripts={scripts} waitFor onComplete={() => setBodyScriptsLoaded(true)} />
+          <span data-testid="ready">{String(scriptsReady)}</span>
+        </>
+      );
+    }
+
+    const shop = [script('reset-shop-body', ScriptLoadingGroupEnum.FOOTER)];
+    const { rerender } = render(<ScriptLoader scripts={shop}><Scripts scripts={shop} /></ScriptLoader>);
+    loadScript('reset-shop-body');
+    expect(screen.getByTestId('ready')).toHaveTextContent('true');
+
+    const checkout = [script('reset-checkout-body', ScriptLoadingGroupEnum.FOOTER)];
+    rerender(<ScriptLoader scripts={checkout}><Scripts scripts={checkout} /></ScriptLoader>);
+    expect(screen.getByTestId('ready')).toHaveTextContent('false');
+
+    loadScript('reset-checkout-body');
+    expect(screen.getByTestId('ready')).toHaveTextContent('true');
+  });
+});
@@ -1,7 +1,32 @@
-import React, { useState, useEffect, createContext, useContext } from 'react';
+import React, { useState, useEffect, useCallback, createContext, useContext } from 'react';
 import { EnqueuedScript } from "@/types";
 
+/**
+ * Load state of an enqueued script
+ *
+ * - pending: inserted and downloading
+ * - loaded: executed
+ * - failed: the request failed
+ * - timed-out: the request took longer than the loader's timeout
+ */
+export type ScriptLoadState = 'pending' | 'loaded' | 'failed' | 'timed-out';
+
+export interface ScriptStatus {
+  handle: string;
+  state: ScriptLoadState;
+  /** performance.now() when the script was inserted */
+  startTime: number;
+  /** performance.now() when the script loaded, failed or timed out */
+  endTime?: number;
+  /** Milliseconds between startTime and endTime */
+  duration?: number;
+}
+
 interface ScriptLoaderContextValue {
+  /** Instance slug of the ScriptLoader, if set */
+  instance?: string;
+  /** CSP nonce for the elements the loaders inject */
+  nonce?: string;
   scriptsReady: boolean;
   stylesheetsReady: boolean;
   contentReady: boolean;
@@ -9,9 +34,14 @@ interface ScriptLoaderContextValue {
   bodyScriptsLoaded: boolean;
   setHeadScriptsLoaded: (headScriptsLoaded: boolean) => void,
   setBodyScriptsLoaded: (bodyScriptsLoaded: boolean) => void,
+  /** Status of each script HeadScripts and BodyScripts inserted, by handle */
+  scriptStatus: Record<string, ScriptStatus>;
+  setScriptStatus: (status: ScriptStatus) => void,
+  /** Context of the enclosing ScriptLoader, if nested */
+  parent?: ScriptLoaderContextValue;
 }
 
-const ScriptLoaderContext = createContext<ScriptLoaderContextValue>({
+const defaultContext: ScriptLoaderContextValue = {
   scriptsReady: false,
   stylesheetsReady: false,
   contentReady: false,
@@ -19,10 +49,37 @@ const ScriptLoaderContext = createContext<ScriptLoaderContextValue>({
   bodyScriptsLoaded: false,
   setHeadScriptsLoaded: () => {},
   setBodyScriptsLoaded: () => {},
-});
+  scriptStatus: {},
+  setScriptStatus: () => {},
+};
+
+const ScriptLoaderContext = createContext<ScriptLoaderContextValue>(defaultContext);
 
-export function useScriptsReady() {
-  return useContext(ScriptLoaderContext);
+/**
+ * Gets the readiness state of the nearest ScriptLoader.
+ *
+ * With an instance, the nearest ScriptLoader for that instance is used instead, so a
+ * component inside a nested ScriptLoader can still wait for an outer instance's scripts.
+ * Falls back to the nearest ScriptLoader when none is set up for the instance.
+ */
+export function useScriptsReady(instance?: string) {
+  const context = useContext(ScriptLoaderContext);
+
+  for (let current: ScriptLoaderContextValue | undefined = context; instance && current; current = current.parent) {
+    if (current.instance === instance) {
+      return current;
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Gets the load status of a script by handle, e.g. to enable a checkout button once
+ * wc-blocks-checkout has loaded. Undefined until HeadScripts or BodyScripts insert it.
+ */
+export function useScriptStatus(handle: string, instance?: string): ScriptStatus | undefined {
+  return useScriptsReady(instance).scriptStatus[handle];
 }
 
 // Alias for better semantics
@@ -30,19 +87,39 @@ export const useContentReady = useScriptsReady;
 
 export interface ScriptLoaderProps {
   scripts: EnqueuedScript[];
+  /** WordPress instance slug whose HeadScripts and BodyScripts report to this ScriptLoader */
+  instance?: string;
+  /** CSP nonce for the elements the loaders inside inject, e.g. read from the x-nonce header set by proxyByWCR */
+  nonce?: string;
   children: React.ReactNode;
 }
 
 /**
  * Client component that manages sequential script loading.
- * Provides scriptsReady and stylesheetsReady state via context to child components.
+ * Provides scriptsReady and stylesheetsReady state via context to child components,
+ * along with the status of each script (see useScriptStatus).
+ *
+ * Mount one ScriptLoader per WordPress instance to keep their readiness apart. Loaders
+ * report to the nearest ScriptLoader with their instance, even through nested ScriptLoaders.
  *
  * Content should show as soon as stylesheets are ready, while scripts continue loading in background.
  */
-export function ScriptLoader({ children }: ScriptLoaderProps) {
+export function ScriptLoader({ instance, nonce, children }: ScriptLoaderProps) {
+  const parent = useContext(ScriptLoaderContext);
   const [headScriptsLoaded, setHeadScriptsLoaded] = useState(false);
   const [bodyScriptsLoaded, setBodyScriptsLoaded] = useState(false);
   const [stylesheetsReady, setStylesheetsReady] = useState(false);
+  const [scriptStatus, setScriptStatuses] = useState<Record<string, ScriptStatus>>({});
+
+  const setScriptStatus = useCallback((status: ScriptStatus) => {
+    setScriptStatuses((current) => {
+      // Keep the original timings of scripts reported again after client-side navigation
+      if (current[status.handle]?.state === 'loaded' && status.state === 'loaded') {
+        return current;
+      }
+      return { ...current, [status.handle]: status };
+    });
+  }, []);
 
   const scriptsReady = headScriptsLoaded && bodyScriptsLoaded;
   const contentReady = stylesheetsReady; // Content shows as soon as CSS is ready
@@ -92,7 +169,10 @@ export function ScriptLoader({ children }: ScriptLoaderProps) {
     };
   }, []);
 
-  const store = {
+  const store: ScriptLoaderContextValue = {
+    instance,
+    nonce: nonce ?? parent.nonce,
+    parent: parent === defaultContext ? undefined : parent,
     scriptsReady,
     stylesheetsReady,
     contentReady,
@@ -100,6 +180,8 @@ export function ScriptLoader({ children }: ScriptLoaderProps) {
     bodyScriptsLoaded,
     setHeadScriptsLoaded,
     setBodyScriptsLoaded,
+    scriptStatus,
+    setScriptStatus,
   };
 
   return (
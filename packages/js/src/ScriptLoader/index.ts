@@ -1,2 +1,2 @@
-export { ScriptLoader, useScriptsReady, useContentReady } from './ScriptLoader';
-export type { ScriptLoaderProps } from './ScriptLoader';
+export { ScriptLoader, useScriptsReady, useContentReady, useScriptStatus } from './ScriptLoader';
+export type { ScriptLoaderProps, ScriptLoadState, ScriptStatus } from './ScriptLoader';
@@ -0,0 +1,195 @@
+import React from 'react';
+import { render, act } from '../testing/utils';
+import { ScriptModules } from './ScriptModules';
+import type { ResolvedScriptModule } from '../utils/importMap';
+
+describe('ScriptModules', () => {
+  beforeEach(() => {
+    document.head.querySelectorAll('script').forEach((el) => el.remove());
+  });
+
+  // Each test uses its own module identifiers, since loaded modules are cached
+  const createModules = (name: string): ResolvedScriptModule[] => [
+    {
+      id: `@${name}/store`,
+      src: `https://wp.example.com/wp-content/plugins/${name}/store.js?ver=1.0`,
+      dependencies: [],
+    },
+    {
+      id: `@${name}/view`,
+      src: `https://wp.example.com/wp-content/plugins/${name}/view.js?ver=1.0`,
+      dependencies: [`@${name}/store`],
+    },
+  ];
+
+  const getImportMaps = () => Array.from(document.head.querySelectorAll('script[type="importmap"]'))
+    .map((el) => JSON.parse(el.textContent as string));
+
+  it('should add the rewritten import map before modules are ready', () => {
+    render(
+      <ScriptModules
+        modules={createModules('map')}
+        importMap={{ imports: { '@wordpress/interactivity': 'https://wp.example.com/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7' } }}
+        instance="shop"
+        waitFor={false}
+      />
+    );
+
+    expect(getImportMaps()).toEqual([
+      { imports: { '@wordpress/interactivity': '/atx/shop/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7' } },
+    ]);
+    expect(document.head.querySelector('script[type="module"]')).toBeNull();
+  });
+
+  it('should only map specifiers that are not mapped yet', () => {
+    const { unmount } = render(
+      <ScriptModules modules={[]} importMap={{ imports: { '@nav/view': '/atx/default/wp-assets/nav/view.js' } }} waitFor={false} />
+    );
+    unmount();
+
+    render(
+      <ScriptModules
+        modules={[]}
+        importMap={{ imports: { '@nav/view': '/atx/default/wp-assets/nav/view.js', '@nav/utils': '/atx/default/wp-assets/nav/utils.js' } }}
+        waitFor={false}
+      />
+    );
+
+    expect(getImportMaps()).toEqual([
+      { imports: { '@nav/view': '/atx/default/wp-assets/nav/view.js' } },
+      { imports: { '@nav/utils': '/atx/default/wp-assets/nav/utils.js' } },
+    ]);
+  });
+
+  it('should keep the first URL of a specifier another instance maps elsewhere', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    render(
+      <ScriptModules modules={[]} importMap={{ imports: { '@shared/view': '/atx/blog/wp-assets/shared/view.js' } }} instance="blog" waitFor={false} />
+    );
+    render(
+      <ScriptModules modules={[]} importMap={{ imports: { '@shared/view': '/atx/shop/wp-assets/shared/view.js' } }} instance="shop" waitFor={false} />
+    );
+
+    expect(getImportMaps()).toEqual([{ imports: { '@shared/view': '/atx/blog/wp-assets/shared/view.js' } }]);
+    expect(consoleWarn).toHaveBeenCalledWith(
+      '[ScriptModules] "@shared/view" is already mapped to /atx/blog/wp-assets/shared/view.js by instance "blog", ' +
+      'ignoring /atx/shop/wp-assets/shared/view.js of instance "shop". Import maps apply to the whole document.'
+    );
+    consoleWarn.mockRestore();
+  });
+
+  it('should track loaded modules per instance', () => {
+    const modules = createModules('instances');
+    const { unmount } = render(<ScriptModules modules={modules} instance="blog" waitFor />);
+    act(() => {
+      document.getElementById('@instances/store-js-module')?.dispatchEvent(new Event('load'));
+      document.getElementById('@instances/view-js-module')?.dispatchEvent(new Event('load'));
+    });
+    unmount();
+    document.head.querySelectorAll('script').forEach((el) => el.remove());
+
+    render(<ScriptModules modules={modules} instance="shop" waitFor />);
+
+    expect(document.getElementById('@instances/store-js-module')).toHaveAttribute(
+      'src',
+      '/atx/shop/wp-assets/wp-content/plugins/instances/store.js?ver=1.0'
+    );
+  });
+
+  it('should wait for ScriptLoader readiness by default', () => {
+    render(<ScriptModules modules={createModules('waiting')} />);
+
+    expect(document.head.querySelector('script[type="module"]')).toBeNull();
+  });
+
+  it('should inject modules in order, each after the previous one loaded', () => {
+    const onComplete = jest.fn();
+
+    render(<ScriptModules modules={createModules('order')} waitFor onComplete={onComplete} />);
+
+    const store = document.getElementById('@order/store-js-module') as HTMLScriptElement;
+    expect(store.type).toBe('module');
+    expect(store.getAttribute('src')).toBe('/atx/default/wp-assets/wp-content/plugins/order/store.js?ver=1.0');
+    expect(document.getElementById('@order/view-js-module')).toBeNull();
+
+    act(() => {
+      store.dispatchEvent(new Event('load'));
+    });
+
+    const view = document.getElementById('@order/view-js-module') as HTMLScriptElement;
+    expect(view).toBeInTheDocument();
+    expect(onComplete).not.toHaveBeenCalled();
+
+    act(() => {
+      view.dispatchEvent(new Event('load'));
+    });
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load only new modules after client-side navigation', () => {
+    const onComplete = jest.fn();
+    const [store, view] = createModules('navigation');
+    const { rerender } = render(<ScriptModules modules={[store]} waitFor onComplete={onComplete} />);
+
+    act(() => {
+      document.getElementById('@navigation/store-js-module')?.dispatchEvent(new Event('load'));
+    });
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    rerender(<ScriptModules modules={[store, view]} waitFor onComplete={onComplete} />);
+
+    expect(document.querySelectorAll('script[id="@navigation/store-js-module"]')).toHaveLength(1);
+    expect(document.getElementById('@navigation/view-js-module')).toBeInTheDocument();
+
+    act(() => {
+      document.getElementById('@navigation/view-js-module')?.dispatchEvent(new Event('load'));
+    });
+    expect(onComplete).toHaveBeenCalledTimes(2);
+
+    // An equal list from a new render does not run again
+    rerender(<ScriptModules modules={[store, view]} waitFor onComplete={onComplete} />);
+    expect(onComplete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prefer the server-resolved URL', () => {
+    const modules = createModules('resolved').map((module) => ({
+      ...module,
+      resolvedSrc: module.src?.replace('https://wp.example.com', '/atx/default/wp-assets'),
+    }));
+
+    render(<ScriptModules modules={modules} waitFor />);
+
+    expect(document.getElementById('@resolved/store-js-module')).toHaveAttribute(
+      'src',
+      '/atx/default/wp-assets/wp-content/plugins/resolved/store.js?ver=1.0'
+    );
+  });
+
+  it('should continue after a module fails to load and skip loaded modules', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const modules = createModules('failing');
+
+    const { unmount } = render(<ScriptModules modules={modules} waitFor />);
+
+    act(() => {
+      document.getElementById('@failing/store-js-module')?.dispatchEvent(new Event('error'));
+    });
+
+    expect(consoleError).toHaveBeenCalledWith('[ScriptModules] Failed to load module: @failing/store', expect.any(Event));
+    expect(document.getElementById('@failing/view-js-module')).toBeInTheDocument();
+
+    act(() => {
+      document.getElementById('@failing/view-js-module')?.dispatchEvent(new Event('load'));
+    });
+    unmount();
+    document.head.querySelectorAll('script').forEach((el) => el.remove());
+
+    const onComplete = jest.fn();
+    render(<ScriptModules modules={modules} waitFor onComplete={onComplete} />);
+
+    expect(document.head.querySelector('script[type="module"]')).toBeNull();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+});
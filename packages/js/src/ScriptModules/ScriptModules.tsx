@@ -0,0 +1,152 @@
+import { useEffect, useRef } from 'react';
+import { useScriptsReady } from '@/ScriptLoader';
+import { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+import { getScriptModuleSrc, ImportMap, ResolvedScriptModule, rewriteImportMap } from '@/utils/importMap';
+import { getDocumentNonce, applyNonce } from '@/utils/nonce';
+import { setScriptSrc, setScriptText } from '@/utils/trustedTypes';
+
+// Global cache to track which modules have been loaded, keyed per instance
+// Prevents duplicate loads across component remounts
+const LoadCache = new Set<string>();
+
+// Module identifiers already mapped by an import map on the page, with their URL and instance.
+// Import maps apply to the whole document, so a specifier maps to one URL for every instance.
+const MappedSpecifiers = new Map<string, { url: string; instance: string }>();
+
+export interface ScriptModulesProps {
+  /** Script modules from assetsByUri, ideally passed through resolveScriptModules on the server */
+  modules: ResolvedScriptModule[];
+  /** Import map from assetsByUri, ideally passed through resolveImportMap on the server */
+  importMap?: ImportMap | null;
+  instance?: string;
+  /** Starts loading modules once true. Defaults to ScriptLoader's scriptsReady. */
+  waitFor?: boolean;
+  /** CSP nonce for the import map and modules. Defaults to the ScriptLoader's nonce, then the nonce of the document's scripts. */
+  nonce?: string;
+  onComplete?: () => void;
+}
+
+/**
+ * Adds an import map with the specifiers not mapped yet.
+ * The first import map on the page must be in place before any module is imported.
+ * Browsers ignore specifiers that an earlier import map already mapped, so a specifier
+ * mapped to another URL, e.g. by a second instance, keeps its first URL.
+ */
+function applyImportMap(importMap: ImportMap, instance: string, nonce?: string) {
+  const imports = Object.entries(importMap.imports).reduce<Record<string, string>>((unmapped, [specifier, url]) => {
+    const mapped = MappedSpecifiers.get(specifier);
+    if (!mapped) {
+      unmapped[specifier] = url;
+    } else if (mapped.url !== url) {
+      console.warn(
+        `[ScriptModules] "${specifier}" is already mapped to ${mapped.url} by instance "${mapped.instance}", ` +
+        `ignoring ${url} of instance "${instance}". Import maps apply to the whole document.`
+      );
+    }
+    return unmapped;
+  }, {});
+
+  if (Object.keys(imports).length === 0 && !importMap.scopes) {
+    return;
+  }
+
+  const el = document.createElement('script');
+  el.type = 'importmap';
+  applyNonce(el, nonce);
+  setScriptText(el, JSON.stringify({ ...importMap, imports }));
+  document.head.appendChild(el);
+
+  Object.entries(imports).forEach(([specifier, url]) => MappedSpecifiers.set(specifier, { url, instance }));
+}
+
+/**
+ * Client component that loads WordPress script modules (WordPress 6.5+).
+ *
+ * Adds the import map right away, pointing module identifiers like '@wordpress/interactivity'
+ * at the /atx/:slug proxy. Once waitFor is true, the enqueued modules are injected as
+ * `type="module"` scripts in dependency order, each loading after the previous one executed.
+ * When modules changes on client-side navigation, only modules that are not loaded yet are added.
+ *
+ * Loaded modules are tracked per instance. The import map is shared by the whole document, so
+ * when two instances map the same identifier to different URLs, the first one wins with a warning.
+ */
+export function ScriptModules({
+  modules,
+  importMap,
+  instance = getDefaultInstanceSlug(),
+  waitFor,
+  nonce,
+  onComplete,
+}: ScriptModulesProps) {
+  const { scriptsReady, nonce: loaderNonce } = useScriptsReady(instance);
+  const ready = waitFor ?? scriptsReady;
+  const loadedModulesRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (importMap) {
+      applyImportMap(rewriteImportMap(importMap, { instance }), instance, nonce ?? loaderNonce ?? getDocumentNonce());
+    }
+  }, [importMap, nonce, loaderNonce, instance]);
+
+  useEffect(() => {
+    // Wait for classic scripts, which WordPress prints before script modules run
+    if (!ready) {
+      return;
+    }
+
+    // Prevent double execution in strict mode, run again when navigation brings new modules
+    const modulesKey = modules.map((module) => module.id).join(',');
+    if (loadedModulesRef.current === modulesKey) {
+      return;
+    }
+    loadedModulesRef.current = modulesKey;
+
+    const scriptNonce = nonce ?? loaderNonce ?? getDocumentNonce();
+    let currentIndex = 0;
+
+    const loadNextModule = () => {
+      if (currentIndex >= modules.length) {
+        if (onComplete) {
+          onComplete();
+        }
+        return;
+      }
+
+      const module = modules[currentIndex];
+      currentIndex++;
+
+      // Skip if already loaded
+      const src = getScriptModuleSrc(module, instance);
+      const cacheKey = `${instance}:${module.id}`;
+      if (!src || LoadCache.has(cacheKey)) {
+        loadNextModule();
+        return;
+      }
+
+      const onModuleLoad = () => {
+        LoadCache.add(cacheKey);
+        loadNextModule();
+      };
+
+      const el = document.createElement('script');
+      el.type = 'module';
+      el.id = `${module.id}-js-module`;
+      applyNonce(el, scriptNonce);
+      setScriptSrc(el, src);
+
+      el.addEventListener('load', onModuleLoad);
+      el.addEventListener('error', (e) => {
+        console.error(`[ScriptModules] Failed to load module: ${module.id}`, e);
+        // Continue loading next module even on error
+        onModuleLoad();
+      });
+
+      document.head.appendChild(el);
+    };
+
+    loadNextModule();
+  }, [modules, ready, nonce, loaderNonce, onComplete, instance]);
+
+  // Render nothing - this is a client-only side effect component
+  return null;
+}
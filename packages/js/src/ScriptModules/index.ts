@@ -0,0 +1,2 @@
+export { ScriptModules } from './ScriptModules';
+export type { ScriptModulesProps } from './ScriptModules';
@@ -3,6 +3,9 @@
  * Handles URL transformation for WooCommerce Blocks configuration and encoding/decoding
  */
 
+import { getRouteMap } from '@/config/getRouteMap';
+import { mapRoute, RouteMap } from '@/utils/mapRoute';
+
 /**
  * Replaces NextPress proxy placeholders in a string with actual URLs.
  *
@@ -54,10 +57,11 @@ export function replaceProxyPlaceholders(content: string, instance: string): str
  * This should be called after wc-settings script loads.
  *
  * Handles two types of placeholders:
- * 1. __NEXTPRESS_PROXY__ - Page URLs (cart, checkout, etc.) → replaced with frontend origin
+ * 1. __NEXTPRESS_PROXY__ - Page URLs (cart, checkout, etc.) → replaced with frontend origin and mapped route
  * 2. __NEXTPRESS_ASSETS__ - Asset URLs (plugins, site URLs) → replaced with proxy route
  *
  * @param instance - WordPress instance slug
+ * @param routes - Maps WordPress paths to frontend routes. Defaults to the instance's configured routes.
  */
 // Extend Window interface for WooCommerce settings
 declare global {
@@ -66,7 +70,7 @@ declare global {
   }
 }
 
-export function processWcSettings(instance: string): void {
+export function processWcSettings(instance: string, routes: RouteMap = getRouteMap(instance)): void {
   const wcSettings = window.wcSettings;
 
   if (!wcSettings) {
@@ -83,10 +87,13 @@ export function processWcSettings(instance: string): void {
   // Recursive function to replace placeholders
   function processValue(value: unknown): unknown {
     if (typeof value === 'string') {
-      // Replace page URL placeholder (with scheme)
+      // Replace page URL placeholder (with scheme) and map the path to its frontend route
       // e.g., 'http://__NEXTPRESS_PROXY__/checkout/' becomes 'http://localhost:3000/checkout/'
       if (value.includes('__NEXTPRESS_PROXY__')) {
-        return value.replace(/https?:\/\/__NEXTPRESS_PROXY__/, frontendOrigin);
+        return value.replace(
+          /https?:\/\/__NEXTPRESS_PROXY__([^\s"'<>]*)/,
+          (_, path: string) => `${frontendOrigin}${mapRoute(path || '/', routes)}`
+        );
       }
 
       // Replace asset URL placeholder (with scheme)
@@ -289,15 +296,16 @@ interface WcSettings {
  * @param instance - The WordPress instance slug for API proxy routes
  * @param options - Optional configuration
  * @param options.rewriteLoginUrl - If true, replaces wpLoginUrl with frontend /login route
+ * @param options.routes - Maps storePages paths to frontend routes. Defaults to the instance's configured routes.
  * @returns Modified script with transformed URLs, or original script if transformation fails
  */
 export function transformWcSettings(
   beforeScript: string,
   frontendUrl: string,
   instance: string,
-  options: { rewriteLoginUrl?: boolean } = {}
+  options: { rewriteLoginUrl?: boolean; routes?: RouteMap } = {}
 ): string {
-  const { rewriteLoginUrl = false } = options;
+  const { rewriteLoginUrl = false, routes = getRouteMap(instance) } = options;
 
   try {
     // Decode beforeScript
@@ -313,8 +321,8 @@ export function transformWcSettings(
           const originalUrl = transformed.storePages[page].permalink as string;
           // Extract the path from the WordPress URL
           const url = new URL(originalUrl);
-          const path = url.pathname;
-          // Replace with frontend URL + path
+          const path = mapRoute(url.pathname, routes);
+          // Replace with frontend URL + route
           transformed.storePages[page].permalink = `${frontendUrl}${path}`;
         }
       }
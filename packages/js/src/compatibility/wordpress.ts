@@ -1,3 +1,5 @@
+import { injectInlineScript } from '@/utils/injectInlineScript';
+
 /**
  * WordPress Core Compatibility Layer
  * Handles nextPressConfig injection and REST API nonce management
@@ -33,16 +35,14 @@ export async function fetchRestNonce(instance: string): Promise<string> {
  * This should be called when the wp-api-fetch script is about to load.
  *
  * @param instance - WordPress instance slug
+ * @param nonce - CSP nonce
  */
-export function injectNextPressConfig(instance: string): void {
-  const configEl = document.createElement('script');
-  configEl.id = 'nextpress-config';
-  configEl.textContent = `
+export function injectNextPressConfig(instance: string, nonce?: string): void {
+  injectInlineScript('nextpress-config', `
     // Preserve existing nextPressConfig properties (like wc)
     window.nextPressConfig = window.nextPressConfig || {};
     window.nextPressConfig.instance = '${instance}';
     window.nextPressConfig.rootURL = '/atx/${instance}/wp-json/';
     window.nextPressConfig.nonceEndpoint = '/atx/${instance}/wp?action=rest-nonce';
-  `;
-  document.head.appendChild(configEl);
+  `, document.head, nonce);
 }
@@ -0,0 +1,22 @@
+/**
+ * Retrieves the default WordPress instance slug
+ *
+ * withWCR resolves the default instance at config load and exposes it as
+ * `wcr_default_instance` (inlined into client bundles via config.env) and
+ * NEXTPRESS_DEFAULT_INSTANCE (server-side process.env).
+ *
+ * Safe to use in both server and client components.
+ */
+
+export const FALLBACK_INSTANCE_SLUG = 'default';
+
+/**
+ * Gets the slug of the default WordPress instance
+ *
+ * @returns The configured default instance slug, or 'default' when withWCR has not set one
+ */
+export function getDefaultInstanceSlug(): string {
+  return process.env.wcr_default_instance
+    || process.env.NEXTPRESS_DEFAULT_INSTANCE
+    || FALLBACK_INSTANCE_SLUG;
+}
@@ -0,0 +1,32 @@
+/**
+ * Retrieves the route patterns configured for a WordPress instance
+ *
+ * withWCR exposes the `routes` of each instance as `wcr_routes` (inlined into
+ * client bundles via config.env), so the same patterns apply when rendering
+ * content on the server and when processing wcSettings in the browser.
+ *
+ * Safe to use in both server and client components.
+ */
+
+import { getDefaultInstanceSlug } from './getDefaultInstanceSlug';
+import type { RoutePattern } from '../utils/mapRoute';
+
+/**
+ * Gets the route patterns of a WordPress instance
+ *
+ * @param slug - The instance slug. Defaults to the configured default instance.
+ * @returns The configured patterns, or an empty list when the instance has none
+ */
+export function getRouteMap(slug: string = getDefaultInstanceSlug()): RoutePattern[] {
+  const routes = process.env.wcr_routes;
+  if (!routes) {
+    return [];
+  }
+
+  try {
+    return (JSON.parse(routes) as Record<string, RoutePattern[]>)[slug] || [];
+  } catch {
+    console.error('[getRouteMap] Failed to parse wcr_routes. This is auto-generated by withWCR.');
+    return [];
+  }
+}
@@ -28,6 +28,8 @@ describe('getWPInstance', () => {
 
     // Clear environment variable
     delete process.env.NEXTPRESS_WP_INSTANCES;
+    delete process.env.NEXTPRESS_DEFAULT_INSTANCE;
+    delete process.env.wcr_default_instance;
   });
 
   afterEach(() => {
@@ -88,6 +90,35 @@ describe('getWPInstance', () => {
     });
   });
 
+  describe('default instance', () => {
+    it('should use the "default" slug when no default instance is configured', () => {
+      process.env.NEXTPRESS_WP_INSTANCES = JSON.stringify(mockInstances);
+
+      const { getWPInstance } = require('./getWPInstance');
+
+      expect(getWPInstance()).toEqual(mockInstance);
+    });
+
+    it('should use NEXTPRESS_DEFAULT_INSTANCE when no slug is provided', () => {
+      process.env.NEXTPRESS_WP_INSTANCES = JSON.stringify(mockInstances);
+      process.env.NEXTPRESS_DEFAULT_INSTANCE = 'blog';
+
+      const { getWPInstance } = require('./getWPInstance');
+
+      expect(getWPInstance()).toEqual(mockInstances.blog);
+    });
+
+    it('should prefer wcr_default_instance from config.env', () => {
+      process.env.NEXTPRESS_WP_INSTANCES = JSON.stringify(mockInstances);
+      process.env.NEXTPRESS_DEFAULT_INSTANCE = 'default';
+      process.env.wcr_default_instance = 'blog';
+
+      const { getWPInstance } = require('./getWPInstance');
+
+      expect(getWPInstance()).toEqual(mockInstances.blog);
+    });
+  });
+
   describe('without configuration', () => {
     it('should throw error when no config file or env var exists', () => {
       const { getWPInstance } = require('./getWPInstance');
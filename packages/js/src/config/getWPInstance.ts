@@ -11,14 +11,22 @@
  * Server-side only - not exposed to client bundle.
  */
 
-type WPInstance = {
+import { getDefaultInstanceSlug } from './getDefaultInstanceSlug';
+
+export type WPInstance = {
   wpDomain: string;
   wpProtocol: string;
   wpHomeUrl: string;
   wpSiteUrl: string;
+  /** Absolute URL of the instance's WPGraphQL endpoint */
+  wpGraphqlUrl: string;
+  /** Optional Authorization header value for server-side GraphQL requests */
+  wpGraphqlAuth?: string;
+  /** Path or URL the endpoint was configured with, as passed to withWCR */
+  wpGraphqlPath?: string;
 };
 
-type WPInstances = Record<string, WPInstance>;
+export type WPInstances = Record<string, WPInstance>;
 
 let cachedInstances: WPInstances | null = null;
 
@@ -49,11 +57,11 @@ function loadInstances(): WPInstances {
 /**
  * Gets a WordPress instance configuration by slug
  *
- * @param slug - The instance slug to retrieve
+ * @param slug - The instance slug to retrieve. Defaults to the configured default instance.
  * @returns The WordPress instance configuration
  * @throws Error if the slug is not found
  */
-export function getWPInstance(slug: string): WPInstance {
+export function getWPInstance(slug: string = getDefaultInstanceSlug()): WPInstance {
   const instances = loadInstances();
   const instance = instances[slug];
 
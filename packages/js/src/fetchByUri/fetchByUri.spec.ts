@@ -0,0 +1,369 @@
+import {
+  fetchAssetsByUri,
+  fetchContentByUri,
+  fetchPageByUri,
+  queryWordPress,
+} from './fetchByUri';
+import * as getWPInstanceModule from '../config/getWPInstance';
+import { mockAssetsByUriQueryResult, mockNodeByUriQueryResult } from '../testing/mock';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+
+describe('fetchByUri', () => {
+  const originalFetch = global.fetch;
+  let mockFetch: jest.Mock;
+
+  // Helper to create a mock fetch response
+  const createMockResponse = (body: unknown, init: { status?: number; invalidJson?: boolean } = {}) => {
+    const status = init.status || 200;
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => {
+        if (init.invalidJson) {
+          throw new SyntaxError('Unexpected token < in JSON at position 0');
+        }
+        return body;
+      },
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockGetWPInstance.mockImplementation((slug: string) => ({
+      wpDomain: `${slug}.example.com`,
+      wpProtocol: 'https',
+      wpHomeUrl: `https://${slug}.example.com`,
+      wpSiteUrl: `https://${slug}.example.com/wp`,
+      wpGraphqlUrl: `https://${slug}.example.com/graphql`,
+    }));
+
+    mockFetch = jest.fn();
+    global.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('queryWordPress', () => {
+    it('should post to the instance GraphQL endpoint', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await queryWordPress('query { viewer { id } }', {}, { instance: 'shop' });
+
+      expect(mockGetWPInstance).toHaveBeenCalledWith('shop');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://shop.example.com/graphql',
+        expect.objectContaining({ method: 'POST', cache: 'no-store' })
+      );
+    });
+
+    it('should use the default instance when none is provided', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await queryWordPress('query { viewer { id } }', {});
+
+      expect(mockGetWPInstance).toHaveBeenCalledWith('default');
+    });
+
+    it('should use the instance wpGraphqlUrl and wpGraphqlAuth', async () => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'cms.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://cms.example.com',
+        wpSiteUrl: 'https://cms.example.com/wp',
+        wpGraphqlUrl: 'https://cms.example.com/wp/graphql',
+        wpGraphqlAuth: 'Basic dXNlcjpwYXNz',
+      });
+      mockFetch.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await queryWordPress('query { viewer { id } }', {}, { instance: 'cms' });
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://cms.example.com/wp/graphql');
+      expect(mockFetch.mock.calls[0][1].headers['Authorization']).toBe('Basic dXNlcjpwYXNz');
+    });
+
+    it('should let authToken override the instance wpGraphqlAuth', async () => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'cms.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://cms.example.com',
+        wpSiteUrl: 'https://cms.example.com',
+        wpGraphqlUrl: 'https://cms.example.com/graphql',
+        wpGraphqlAuth: 'Basic dXNlcjpwYXNz',
+      });
+      mockFetch.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await queryWordPress('query { viewer { id } }', {}, { instance: 'cms', authToken: 'user-token' });
+
+      expect(mockFetch.mock.calls[0][1].headers['Authorization']).toBe('Bearer user-token');
+    });
+
+    it('should prefer an explicit endpoint', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await queryWordPress('query { viewer { id } }', {}, { endpoint: 'https://cms.example.com/wp/graphql' });
+
+      expect(mockGetWPInstance).not.toHaveBeenCalled();
+      expect(mockFetch.mock.calls[0][0]).toBe('https://cms.example.com/wp/graphql');
+    });
+
+    it('should send Cart-Token and Authorization headers', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await queryWordPress('query { viewer { id } }', {}, {
+        cartToken: 'cart-123',
+        authToken: 'auth-456',
+        headers: { 'X-Custom': 'custom-value' },
+      });
+
+      const { headers } = mockFetch.mock.calls[0][1];
+      expect(headers).toEqual({
+        'Content-Type': 'application/json',
+        'X-Custom': 'custom-value',
+        'Cart-Token': 'cart-123',
+        'Authorization': 'Bearer auth-456',
+      });
+    });
+
+    it('should merge custom request options', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await queryWordPress('query { viewer { id } }', {}, {
+        requestInit: { cache: 'force-cache' },
+      });
+
+      expect(mockFetch.mock.calls[0][1].cache).toBe('force-cache');
+    });
+
+    it('should return a config error when the instance is not configured', async () => {
+      mockGetWPInstance.mockImplementation((slug?: string) => {
+        throw new Error(`WordPress instance "${slug}" not found. Available instances: default`);
+      });
+
+      const result = await queryWordPress('query { viewer { id } }', {}, { instance: 'missing' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        data: null,
+        error: { type: 'config', message: 'WordPress instance "missing" not found. Available instances: default' },
+      });
+    });
+
+    it('should return a network error when fetch throws', async () => {
+      mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      const result = await queryWordPress('query { viewer { id } }', {});
+
+      expect(result).toEqual({
+        ok: false,
+        data: null,
+        error: { type: 'network', message: 'connect ECONNREFUSED' },
+      });
+    });
+
+    it('should return an http error for non-2xx responses', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({}, { status: 502 }));
+
+      const result = await queryWordPress('query { viewer { id } }', {});
+
+      expect(result.ok).toBe(false);
+      expect(result.error?.type).toBe('http');
+      expect(result.error?.status).toBe(502);
+    });
+
+    it('should return a parse error for invalid JSON', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(null, { invalidJson: true }));
+
+      const result = await queryWordPress('query { viewer { id } }', {});
+
+      expect(result.ok).toBe(false);
+      expect(result.error?.type).toBe('parse');
+    });
+
+    it('should return GraphQL errors as a typed result', async () => {
+      const errors = [
+        { message: 'Cannot query field "assetsByUri" on type "RootQuery".', locations: [{ line: 2, column: 3 }] },
+        { message: 'Internal server error' },
+      ];
+      mockFetch.mockResolvedValue(createMockResponse({ data: null, errors }));
+
+      const result = await queryWordPress('query { assetsByUri { id } }', {});
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toEqual({
+        type: 'graphql',
+        message: 'Cannot query field "assetsByUri" on type "RootQuery".; Internal server error',
+        status: 200,
+        graphqlErrors: errors,
+      });
+    });
+  });
+
+  describe('fetchAssetsByUri', () => {
+    it('should return typed scripts and stylesheets', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(mockAssetsByUriQueryResult));
+
+      const result = await fetchAssetsByUri('/cart');
+
+      expect(result.ok).toBe(true);
+      expect(result.data?.scripts).toBe(mockAssetsByUriQueryResult.data.assetsByUri.enqueuedScripts.nodes);
+      expect(result.data?.stylesheets).toBe(mockAssetsByUriQueryResult.data.assetsByUri.enqueuedStylesheets.nodes);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).variables).toEqual({ uri: '/cart' });
+    });
+
+    it('should return empty arrays when no assets exist for the URI', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: { assetsByUri: null } }));
+
+      const result = await fetchAssetsByUri('/missing');
+
+      expect(result).toEqual({ ok: true, data: { scripts: [], stylesheets: [], scriptModules: [], importMap: null, interactivity: null } });
+    });
+
+    it('should only query script module fields when included', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: { assetsByUri: null } }));
+
+      await fetchAssetsByUri('/about');
+      await fetchPageByUri('/about');
+      await fetchPageByUri('/about', { includeScriptModules: true });
+
+      const queries = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).query);
+      expect(queries[0]).not.toMatch(/enqueuedScriptModules|importMap|interactivity/);
+      expect(queries[1]).not.toMatch(/enqueuedScriptModules|importMap|interactivity/);
+      expect(queries[2]).toContain('enqueuedScriptModules {');
+      expect(queries[2]).toContain('importMap');
+      expect(queries[2]).toContain('interactivity {');
+    });
+
+    it('should return script modules and the parsed import map', async () => {
+      const scriptModules = [
+        { id: '@wordpress/interactivity', src: 'https://default.example.com/wp/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7', dependencies: [] },
+        { id: '@wordpress/block-library/navigation/view', src: 'https://default.example.com/wp/wp-includes/js/dist/script-modules/block-library/navigation/view.min.js?ver=6.7', dependencies: ['@wordpress/interactivity'] },
+      ];
+      mockFetch.mockResolvedValue(createMockResponse({
+        data: {
+          assetsByUri: {
+            enqueuedScriptModules: scriptModules,
+            importMap: JSON.stringify({ imports: { '@wordpress/interactivity': scriptModules[0].src } }),
+          },
+        },
+      }));
+
+      const result = await fetchAssetsByUri('/about', { includeScriptModules: true });
+
+      expect(result.data?.scriptModules).toBe(scriptModules);
+      expect(result.data?.importMap).toEqual({ imports: { '@wordpress/interactivity': scriptModules[0].src } });
+    });
+
+    it('should ignore an invalid import map', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockResolvedValue(createMockResponse({
+        data: { assetsByUri: { enqueuedScriptModules: null, importMap: '{"imports":' } },
+      }));
+
+      const result = await fetchAssetsByUri('/about', { includeScriptModules: true });
+
+      expect(result.data?.scriptModules).toEqual([]);
+      expect(result.data?.importMap).toBeNull();
+      expect(warnSpy).toHaveBeenCalledWith('[fetchByUri] Ignoring invalid import map:', expect.any(SyntaxError));
+      warnSpy.mockRestore();
+    });
+
+    it('should parse Interactivity API state and config', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({
+        data: {
+          assetsByUri: {
+            interactivity: {
+              state: '{"core/navigation":{"isMenuOpen":false}}',
+              config: '{"core/router":{"navigationMode":"regionBased"}}',
+              runtimeSrc: 'https://default.example.com/wp/wp-includes/js/dist/script-modules/interactivity/index.min.js',
+            },
+          },
+        },
+      }));
+
+      const result = await fetchAssetsByUri('/about', { includeScriptModules: true });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).query).toContain('interactivity {');
+      expect(result.data?.interactivity).toEqual({
+        state: { 'core/navigation': { isMenuOpen: false } },
+        config: { 'core/router': { navigationMode: 'regionBased' } },
+        runtimeSrc: 'https://default.example.com/wp/wp-includes/js/dist/script-modules/interactivity/index.min.js',
+      });
+    });
+
+    it('should ignore invalid Interactivity API data', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockResolvedValue(createMockResponse({
+        data: { assetsByUri: { interactivity: { state: '{invalid', config: null, runtimeSrc: null } } },
+      }));
+
+      const result = await fetchAssetsByUri('/about', { includeScriptModules: true });
+
+      expect(result.data?.interactivity).toBeNull();
+      expect(warnSpy).toHaveBeenCalledWith('[fetchByUri] Ignoring invalid Interactivity API data:', expect.any(SyntaxError));
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('fetchContentByUri', () => {
+    it('should return the node content', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(mockNodeByUriQueryResult));
+
+      const result = await fetchContentByUri('/cart');
+
+      expect(result).toEqual({
+        ok: true,
+        data: { content: mockNodeByUriQueryResult.data.nodeByUri.content },
+      });
+    });
+
+    it('should return null content when no node matches', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ data: { nodeByUri: null } }));
+
+      const result = await fetchContentByUri('/missing');
+
+      expect(result).toEqual({ ok: true, data: { content: null } });
+    });
+  });
+
+  describe('fetchPageByUri', () => {
+    it('should fetch content and assets in a single request', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({
+        data: {
+          ...mockAssetsByUriQueryResult.data,
+          ...mockNodeByUriQueryResult.data,
+        },
+      }));
+
+      const result = await fetchPageByUri('/cart', { instance: 'shop' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(true);
+      expect(result.data?.content).toBe(mockNodeByUriQueryResult.data.nodeByUri.content);
+      expect(result.data?.scripts).toHaveLength(
+        mockAssetsByUriQueryResult.data.assetsByUri.enqueuedScripts.nodes.length
+      );
+      expect(result.data?.stylesheets).toHaveLength(
+        mockAssetsByUriQueryResult.data.assetsByUri.enqueuedStylesheets.nodes.length
+      );
+    });
+
+    it('should propagate errors', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ errors: [{ message: 'Forbidden' }] }));
+
+      const result = await fetchPageByUri('/cart');
+
+      expect(result.ok).toBe(false);
+      expect(result.error?.graphqlErrors).toEqual([{ message: 'Forbidden' }]);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * NextPress Data Client
+ * Server-side helpers for fetching WordPress content and enqueued assets by URI
+ * through WPGraphQL.
+ *
+ * Server-side only - reads instance configuration via getWPInstance.
+ */
+
+import { getWPInstance } from '@/config/getWPInstance';
+import { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+import { EnqueuedScript, EnqueuedScriptModule, EnqueuedStylesheet, UriAssetsInteractivity } from '@/types';
+import type { ImportMap } from '@/utils/importMap';
+
+/**
+ * A single error entry from a GraphQL response
+ */
+export type GraphQLError = {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  path?: Array<string | number>;
+  extensions?: Record<string, unknown>;
+};
+
+/**
+ * Describes why a data client request failed
+ *
+ * - `config` - the instance is not configured, e.g. an unknown slug or withWCR missing
+ * - `network` - fetch() itself threw (DNS, connection refused, etc.)
+ * - `http` - the endpoint responded with a non-2xx status
+ * - `parse` - the response body was not valid JSON
+ * - `graphql` - the response contained GraphQL errors
+ */
+export type NextPressFetchError = {
+  type: 'config' | 'network' | 'http' | 'parse' | 'graphql';
+  message: string;
+  status?: number;
+  graphqlErrors?: GraphQLError[];
+};
+
+/**
+ * Result of a data client request. Either `ok` with data, or not `ok` with an error.
+ */
+export type NextPressResult<T> =
+  | { ok: true; data: T; error?: undefined }
+  | { ok: false; data: null; error: NextPressFetchError };
+
+/**
+ * Server-rendered WordPress Interactivity API data for a URI
+ */
+export type InteractivityData = {
+  /** Store state, keyed by namespace */
+  state: Record<string, unknown>;
+  /** Store configuration, keyed by namespace */
+  config: Record<string, unknown>;
+  /** URL of the Interactivity API runtime on the WordPress instance */
+  runtimeSrc: string | null;
+};
+
+export type AssetsByUri = {
+  scripts: EnqueuedScript[];
+  stylesheets: EnqueuedStylesheet[];
+  /** Script modules, dependencies first (WordPress 6.5+). Empty without includeScriptModules. */
+  scriptModules: EnqueuedScriptModule[];
+  /** Import map for the script modules, or null when no module is enqueued or without includeScriptModules */
+  importMap: ImportMap | null;
+  /** Interactivity API data, or null when no rendered block uses the Interactivity API or without includeScriptModules */
+  interactivity: InteractivityData | null;
+};
+
+export type ContentByUri = {
+  /** Rendered post content, or null when no node matches the URI */
+  content: string | null;
+};
+
+export type PageByUri = AssetsByUri & ContentByUri;
+
+export interface FetchByUriOptions {
+  /** WordPress instance slug. Defaults to the configured default instance. */
+  instance?: string;
+  /** Overrides the GraphQL endpoint. Defaults to the instance's `wpGraphqlUrl`. */
+  endpoint?: string;
+  /** WooCommerce session token, sent as the `Cart-Token` header */
+  cartToken?: string;
+  /** Authentication token, sent as a `Bearer` Authorization header */
+  authToken?: string;
+  /** Additional request headers */
+  headers?: Record<string, string>;
+  /** Additional fetch options (e.g. `next: { revalidate: 60 }`). Defaults to `cache: 'no-store'`. */
+  requestInit?: Omit<RequestInit, 'method' | 'body' | 'headers'>;
+  /**
+   * Also queries script modules, the import map and Interactivity API data.
+   * Requires the NextPress WordPress plugin 1.1.0 or later, older versions reject the fields.
+   */
+  includeScriptModules?: boolean;
+}
+
+const ENQUEUED_ASSETS_FIELDS = `
+  enqueuedStylesheets(first: 500) {
+    nodes {
+      handle
+      src
+      version
+      after
+      before
+      dependencies {
+        handle
+      }
+    }
+  }
+  enqueuedScripts(first: 500) {
+    nodes {
+      handle
+      src
+      strategy
+      version
+      after
+      group
+      location
+      before
+      extraData
+      dependencies {
+        handle
+      }
+    }
+  }
+`;
+
+const SCRIPT_MODULE_FIELDS = `
+  enqueuedScriptModules {
+    id
+    src
+    version
+    dependencies
+    dynamicDependencies
+  }
+  importMap
+  interactivity {
+    state
+    config
+    runtimeSrc
+  }
+`;
+
+const CONTENT_FIELDS = `
+  ... on NodeWithContentEditor {
+    content
+  }
+`;
+
+function buildAssetsByUriQuery(assetsFields: string): string {
+  return `query AssetsByUri($uri: String!) {
+  assetsByUri(uri: $uri) {
+    id
+    uri
+    ${assetsFields}
+  }
+}`;
+}
+
+function buildPageByUriQuery(assetsFields: string): string {
+  return `query PageByUri($uri: String!) {
+  assetsByUri(uri: $uri) {
+    id
+    uri
+    ${assetsFields}
+  }
+  nodeByUri(uri: $uri) {
+    ${CONTENT_FIELDS}
+  }
+}`;
+}
+
+export const ASSETS_BY_URI_QUERY = buildAssetsByUriQuery(ENQUEUED_ASSETS_FIELDS);
+
+export const CONTENT_BY_URI_QUERY = `query ContentByUri($uri: String!) {
+  nodeByUri(uri: $uri) {
+    ${CONTENT_FIELDS}
+  }
+}`;
+
+export const PAGE_BY_URI_QUERY = buildPageByUriQuery(ENQUEUED_ASSETS_FIELDS);
+
+const ASSETS_WITH_MODULES_BY_URI_QUERY = buildAssetsByUriQuery(ENQUEUED_ASSETS_FIELDS + SCRIPT_MODULE_FIELDS);
+
+const PAGE_WITH_MODULES_BY_URI_QUERY = buildPageByUriQuery(ENQUEUED_ASSETS_FIELDS + SCRIPT_MODULE_FIELDS);
+
+type AssetsByUriResponse = {
+  assetsByUri?: {
+    enqueuedScripts?: { nodes?: EnqueuedScript[] | null } | null;
+    enqueuedStylesheets?: { nodes?: EnqueuedStylesheet[] | null } | null;
+    enqueuedScriptModules?: EnqueuedScriptModule[] | null;
+    importMap?: string | null;
+    interactivity?: UriAssetsInteractivity | null;
+  } | null;
+};
+
+type ContentByUriResponse = {
+  nodeByUri?: { content?: string | null } | null;
+};
+
+/**
+ * Builds the request headers for a data client request.
+ * A per-request authToken takes precedence over the instance's wpGraphqlAuth.
+ */
+function buildHeaders(options: FetchByUriOptions, instanceAuth?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...options.headers,
+  };
+
+  if (instanceAuth) {
+    headers['Authorization'] = instanceAuth;
+  }
+  if (options.cartToken) {
+    headers['Cart-Token'] = options.cartToken;
+  }
+  if (options.authToken) {
+    headers['Authorization'] = `Bearer ${options.authToken}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Executes a GraphQL query against a WordPress instance
+ *
+ * @param query - GraphQL query document
+ * @param variables - Query variables
+ * @param options - Instance, endpoint and header options
+ * @returns Typed result with the response data or a descriptive error
+ */
+export async function queryWordPress<TData>(
+  query: string,
+  variables: Record<string, unknown>,
+  options: FetchByUriOptions = {}
+): Promise<NextPressResult<TData>> {
+  const { instance = getDefaultInstanceSlug(), endpoint, requestInit } = options;
+
+  let url = endpoint;
+  let instanceAuth: string | undefined;
+  if (!url) {
+    try {
+      const { wpGraphqlUrl, wpGraphqlAuth } = getWPInstance(instance);
+      url = wpGraphqlUrl;
+      instanceAuth = wpGraphqlAuth;
+    } catch (error) {
+      return {
+        ok: false,
+        data: null,
+        error: {
+          type: 'config',
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      cache: 'no-store',
+      ...requestInit,
+      method: 'POST',
+      headers: buildHeaders(options, instanceAuth),
+      body: JSON.stringify({ query, variables }),
+    });
+  } catch (error) {
+    return {
+      ok: false,
+      data: null,
+      error: {
+        type: 'network',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+
+  if (!response.ok) {
+    return {
+      ok: false,
+      data: null,
+      error: {
+        type: 'http',
+        message: `GraphQL request failed with status ${response.status}`,
+        status: response.status,
+      },
+    };
+  }
+
+  let json: { data?: TData | null; errors?: GraphQLError[] };
+  try {
+    json = await response.json();
+  } catch (error) {
+    return {
+      ok: false,
+      data: null,
+      error: {
+        type: 'parse',
+        message: error instanceof Error ? error.message : String(error),
+        status: response.status,
+      },
+    };
+  }
+
+  if (json.errors && json.errors.length > 0) {
+    return {
+      ok: false,
+      data: null,
+      error: {
+        type: 'graphql',
+        message: json.errors.map(({ message }) => message).join('; '),
+        status: response.status,
+        graphqlErrors: json.errors,
+      },
+    };
+  }
+
+  return { ok: true, data: (json.data ?? {}) as TData };
+}
+
+function toInteractivity(interactivity?: UriAssetsInteractivity | null): InteractivityData | null {
+  if (!interactivity) {
+    return null;
+  }
+
+  try {
+    return {
+      state: interactivity.state ? JSON.parse(interactivity.state) : {},
+      config: interactivity.config ? JSON.parse(interactivity.config) : {},
+      runtimeSrc: interactivity.runtimeSrc ?? null,
+    };
+  } catch (error) {
+    console.warn('[fetchByUri] Ignoring invalid Interactivity API data:', error);
+    return null;
+  }
+}
+
+function toImportMap(importMap?: string | null): ImportMap | null {
+  if (!importMap) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(importMap);
+  } catch (error) {
+    console.warn('[fetchByUri] Ignoring invalid import map:', error);
+    return null;
+  }
+}
+
+function toAssets(data: AssetsByUriResponse): AssetsByUri {
+  return {
+    scripts: data.assetsByUri?.enqueuedScripts?.nodes || [],
+    stylesheets: data.assetsByUri?.enqueuedStylesheets?.nodes || [],
+    scriptModules: data.assetsByUri?.enqueuedScriptModules || [],
+    importMap: toImportMap(data.assetsByUri?.importMap),
+    interactivity: toInteractivity(data.assetsByUri?.interactivity),
+  };
+}
+
+function toContent(data: ContentByUriResponse): ContentByUri {
+  return {
+    content: data.nodeByUri?.content ?? null,
+  };
+}
+
+/**
+ * Fetches the enqueued scripts and stylesheets for a URI
+ *
+ * @param uri - WordPress URI, e.g. '/cart'
+ * @param options - Instance, endpoint and header options
+ */
+export async function fetchAssetsByUri(
+  uri: string,
+  options: FetchByUriOptions = {}
+): Promise<NextPressResult<AssetsByUri>> {
+  const query = options.includeScriptModules ? ASSETS_WITH_MODULES_BY_URI_QUERY : ASSETS_BY_URI_QUERY;
+  const result = await queryWordPress<AssetsByUriResponse>(query, { uri }, options);
+  if (!result.ok) {
+    return result;
+  }
+
+  return { ok: true, data: toAssets(result.data) };
+}
+
+/**
+ * Fetches the rendered content for a URI
+ *
+ * @param uri - WordPress URI, e.g. '/sample-page'
+ * @param options - Instance, endpoint and header options
+ */
+export async function fetchContentByUri(
+  uri: string,
+  options: FetchByUriOptions = {}
+): Promise<NextPressResult<ContentByUri>> {
+  const result = await queryWordPress<ContentByUriResponse>(CONTENT_BY_URI_QUERY, { uri }, options);
+  if (!result.ok) {
+    return result;
+  }
+
+  return { ok: true, data: toContent(result.data) };
+}
+
+/**
+ * Fetches content, scripts and stylesheets for a URI in a single round trip
+ *
+ * @param uri - WordPress URI, e.g. '/checkout'
+ * @param options - Instance, endpoint and header options
+ */
+export async function fetchPageByUri(
+  uri: string,
+  options: FetchByUriOptions = {}
+): Promise<NextPressResult<PageByUri>> {
+  const query = options.includeScriptModules ? PAGE_WITH_MODULES_BY_URI_QUERY : PAGE_BY_URI_QUERY;
+  const result = await queryWordPress<AssetsByUriResponse & ContentByUriResponse>(query, { uri }, options);
+  if (!result.ok) {
+    return result;
+  }
+
+  return {
+    ok: true,
+    data: {
+      ...toAssets(result.data),
+      ...toContent(result.data),
+    },
+  };
+}
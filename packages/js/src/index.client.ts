@@ -1,4 +1,19 @@
 export * from '@/types';
 export * from '@/HeadScripts';
 export * from '@/BodyScripts';
-export * from '@/ScriptLoader';
\ No newline at end of file
+export * from '@/ContentScripts';
+export * from '@/ScriptModules';
+export * from '@/Island';
+export * from '@/InteractivityLoader';
+export * from '@/ScriptLoader';
+export { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+export { getRouteMap } from '@/config/getRouteMap';
+export { mapRoute } from '@/utils/mapRoute';
+export type { RouteMap, RoutePattern, RouteResolver } from '@/utils/mapRoute';
+export { resolveAssetUrl } from '@/utils/resolveAssetUrl';
+export type { ResolvedEnqueuedScript, ResolveAssetUrlOptions } from '@/utils/resolveAssetUrl';
+export { rewriteImportMap } from '@/utils/importMap';
+export type { ImportMap, ResolvedScriptModule } from '@/utils/importMap';
+export { createTrustedTypesPolicy } from '@/utils/trustedTypes';
+export type { ContentScript } from '@/parsers/scriptCollectingParser';
+export type { InteractivityData } from '@/fetchByUri';
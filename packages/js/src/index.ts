@@ -2,4 +2,26 @@ export * from '@/types';
 export * from '@/Content';
 export * from '@/RenderStylesheets';
 export * from '@/parsers';
+export * from '@/fetchByUri';
+export { getWPInstance, getAllWPInstances, getInstanceSlugs } from '@/config/getWPInstance';
+export type { WPInstance, WPInstances } from '@/config/getWPInstance';
+export { getDefaultInstanceSlug } from '@/config/getDefaultInstanceSlug';
+export { getRouteMap } from '@/config/getRouteMap';
+export { mapRoute } from '@/utils/mapRoute';
+export type { RouteMap, RoutePattern, RouteResolver } from '@/utils/mapRoute';
+export { parseHtml } from '@/utils/parseHtml';
+export type { CustomParser, ElementProps, RenderChildren } from '@/utils/parseHtml';
+export { normalizeHtml } from '@/utils/normalizeHtml';
+export type { HtmlFix } from '@/utils/normalizeHtml';
+export { getContentOutline, assignHeadingIds, slugifyHeading } from '@/utils/getContentOutline';
+export type { ContentOutline, OutlineItem } from '@/utils/getContentOutline';
 export { sortScriptsByDependencies } from '@/utils/sortScriptsByDependencies';
+export { resolveEnqueuedScripts } from '@/utils/resolveEnqueuedScripts';
+export { resolveScriptModules, resolveImportMap, resolveInteractivity } from '@/utils/resolveScriptModules';
+export { rewriteImportMap } from '@/utils/importMap';
+export type { ImportMap, ResolvedScriptModule } from '@/utils/importMap';
+export { createCspHeader } from '@/utils/createCspHeader';
+export type { CspHeaderOptions } from '@/utils/createCspHeader';
+export { generateNonce } from '@/utils/nonce';
+export { resolveAssetUrl } from '@/utils/resolveAssetUrl';
+export type { ResolvedEnqueuedScript, ResolveAssetUrlOptions } from '@/utils/resolveAssetUrl';
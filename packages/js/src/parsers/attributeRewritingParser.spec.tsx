@@ -0,0 +1,233 @@
+import React from 'react';
+import { render, screen } from '../testing/utils';
+import { parseHtml } from '../utils/parseHtml';
+import { Content } from '../Content';
+import { createAttributeRewritingParser } from './attributeRewritingParser';
+import { createImageParser } from './imageParser';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+const options = {
+  instance: 'main',
+  wpHomeUrl: 'https://wp.example.com',
+  wpSiteUrl: 'https://wp.example.com',
+};
+
+function renderHtml(html: string, ...parsers: Parameters<typeof parseHtml>[1][]) {
+  return render(<div data-testid="root">{parseHtml(html, createAttributeRewritingParser(options), ...parsers)}</div>);
+}
+
+describe('attributeRewritingParser', () => {
+  describe('media', () => {
+    it('should proxy img src and srcset', () => {
+      renderHtml('<img alt="Cat" src="https://wp.example.com/wp-content/uploads/cat.jpg" srcset="https://wp.example.com/wp-content/uploads/cat.jpg 1x, https://wp.example.com/wp-content/uploads/cat@2x.jpg 2x" />');
+
+      const image = screen.getByAltText('Cat');
+      expect(image).toHaveAttribute('src', '/atx/main/wp-assets/wp-content/uploads/cat.jpg');
+      expect(image).toHaveAttribute('srcset', '/atx/main/wp-assets/wp-content/uploads/cat.jpg 1x, /atx/main/wp-assets/wp-content/uploads/cat@2x.jpg 2x');
+    });
+
+    it('should proxy video posters and sources', () => {
+      const { container } = renderHtml(
+        '<video poster="https://wp.example.com/wp-content/uploads/poster.jpg"><source src="https://wp.example.com/wp-content/uploads/clip.mp4" type="video/mp4" /></video>'
+      );
+
+      expect(container.querySelector('video')).toHaveAttribute('poster', '/atx/main/wp-assets/wp-content/uploads/poster.jpg');
+      expect(container.querySelector('source')).toHaveAttribute('src', '/atx/main/wp-assets/wp-content/uploads/clip.mp4');
+    });
+
+    it('should proxy protocol-relative URLs on the instance', () => {
+      renderHtml('<img alt="Cat" src="//wp.example.com/wp-content/uploads/cat.jpg" />');
+
+      expect(screen.getByAltText('Cat')).toHaveAttribute('src', '/atx/main/wp-assets/wp-content/uploads/cat.jpg');
+    });
+
+    it('should keep media on other origins and relative URLs', () => {
+      renderHtml('<img alt="CDN" src="https://cdn.example.com/cat.jpg" /><img alt="Local" src="/images/logo.png" />');
+
+      expect(screen.getByAltText('CDN')).toHaveAttribute('src', 'https://cdn.example.com/cat.jpg');
+      expect(screen.getByAltText('Local')).toHaveAttribute('src', '/images/logo.png');
+    });
+  });
+
+  describe('data attributes', () => {
+    it('should rewrite block data attributes on any element', () => {
+      renderHtml('<figure data-testid="figure" data-full-url="https://wp.example.com/wp-content/uploads/full.jpg" data-link="https://wp.example.com/gallery/cat/?a=1#top">Cat</figure>');
+
+      const figure = screen.getByTestId('figure');
+      expect(figure).toHaveAttribute('data-full-url', '/atx/main/wp-assets/wp-content/uploads/full.jpg');
+      expect(figure).toHaveAttribute('data-link', '/gallery/cat/?a=1#top');
+    });
+  });
+
+  describe('form actions', () => {
+    it('should map admin-ajax to the wp proxy route', () => {
+      const { container } = renderHtml('<form action="https://wp.example.com/wp-admin/admin-ajax.php?action=subscribe"></form>');
+
+      expect(container.querySelector('form')).toHaveAttribute('action', '/atx/main/wp?action=subscribe');
+    });
+
+    it('should map REST endpoints to the wp-json proxy route', () => {
+      const { container } = renderHtml('<form action="https://wp.example.com/wp-json/contact/v1/send"></form>');
+
+      expect(container.querySelector('form')).toHaveAttribute('action', '/atx/main/wp-json/contact/v1/send');
+    });
+
+    it('should map wc-ajax to the wc proxy route', () => {
+      const { container } = renderHtml('<form action="https://wp.example.com/?wc-ajax=add_to_cart"></form>');
+
+      expect(container.querySelector('form')).toHaveAttribute('action', '/atx/main/wc?wc-ajax=add_to_cart');
+    });
+
+    it('should map page actions to frontend routes', () => {
+      const { container } = renderHtml('<form action="https://wp.example.com/" method="get"></form>');
+
+      expect(container.querySelector('form')).toHaveAttribute('action', '/');
+    });
+
+    it('should keep and report other WordPress endpoints', () => {
+      const onUnrewritten = jest.fn();
+      const parser = createAttributeRewritingParser({ ...options, onUnrewritten });
+      const { container } = render(
+        <div>
+          {parseHtml(
+            '<div id="respond" class="comment-respond"><form action="https://wp.example.com/wp-comments-post.php" method="post" id="commentform" class="comment-form">' +
+            '<textarea id="comment" name="comment"></textarea><input name="submit" type="submit" id="submit" value="Post Comment" />' +
+            '<input type="hidden" name="comment_post_ID" value="1" id="comment_post_ID" /></form></div>',
+            parser
+          )}
+        </div>
+      );
+
+      expect(container.querySelector('#commentform')).toHaveAttribute('action', 'https://wp.example.com/wp-comments-post.php');
+      expect(onUnrewritten).toHaveBeenCalledTimes(1);
+      expect(onUnrewritten).toHaveBeenCalledWith({
+        element: 'form',
+        attribute: 'action',
+        value: 'https://wp.example.com/wp-comments-post.php',
+      });
+    });
+
+    it('should not report rewritten or external actions', () => {
+      const onUnrewritten = jest.fn();
+      const parser = createAttributeRewritingParser({ ...options, onUnrewritten });
+      render(
+        <div>
+          {parseHtml(
+            '<form action="https://wp.example.com/wp-admin/admin-ajax.php"></form><form action="https://forms.example.org/submit"></form>',
+            parser
+          )}
+        </div>
+      );
+
+      expect(onUnrewritten).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subdirectory install', () => {
+    it('should resolve paths against the home and site URLs', () => {
+      const parser = createAttributeRewritingParser({
+        instance: 'main',
+        wpHomeUrl: 'https://example.com/blog',
+        wpSiteUrl: 'https://example.com/blog/wp',
+      });
+
+      const { container } = render(<div>{parseHtml(
+        '<form action="https://example.com/blog/wp/wp-admin/admin-ajax.php"></form><span data-testid="link" data-href="https://example.com/blog/hello/"></span>',
+        parser
+      )}</div>);
+
+      expect(container.querySelector('form')).toHaveAttribute('action', '/atx/main/wp');
+      expect(screen.getByTestId('link')).toHaveAttribute('data-href', '/hello/');
+    });
+  });
+
+  it('should use custom rewrites', () => {
+    const parser = createAttributeRewritingParser({ ...options, rewrites: { div: { 'data-bg': 'media' } } });
+
+    render(<div>{parseHtml(
+      '<div data-testid="bg" data-bg="https://wp.example.com/wp-content/uploads/bg.jpg" data-src="https://wp.example.com/wp-content/uploads/a.jpg"></div>',
+      parser
+    )}</div>);
+
+    expect(screen.getByTestId('bg')).toHaveAttribute('data-bg', '/atx/main/wp-assets/wp-content/uploads/bg.jpg');
+    expect(screen.getByTestId('bg')).toHaveAttribute('data-src', 'https://wp.example.com/wp-content/uploads/a.jpg');
+  });
+
+  it('should pass rewritten attributes to later parsers', () => {
+    const ImageComponent = jest.fn(() => null);
+
+    renderHtml(
+      '<img alt="Cat" class="wp-image-1" width="10" height="10" src="https://wp.example.com/wp-content/uploads/cat.jpg" />',
+      createImageParser({ ImageComponent, proxyMedia: true, ...options })
+    );
+
+    expect(ImageComponent).toHaveBeenCalledWith(
+      expect.objectContaining({ src: '/atx/main/wp-assets/wp-content/uploads/cat.jpg' }),
+      undefined
+    );
+  });
+
+  it('should leave anchors to the URL rewriting parser', () => {
+    renderHtml('<a href="https://wp.example.com/about">About</a>');
+
+    expect(screen.getByText('About')).toHaveAttribute('href', 'https://wp.example.com/about');
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    it('should not rewrite attributes by default', () => {
+      render(<Content content='<img alt="Cat" src="https://wp.example.com/wp-content/uploads/cat.jpg" />' />);
+
+      expect(screen.getByAltText('Cat')).toHaveAttribute('src', 'https://wp.example.com/wp-content/uploads/cat.jpg');
+    });
+
+    it('should rewrite attributes and links with rewriteAttributes', () => {
+      render(
+        <Content
+          content='<form action="https://wp.example.com/wp-admin/admin-ajax.php"><img alt="Cat" src="https://wp.example.com/wp-content/uploads/cat.jpg" /></form><a href="https://wp.example.com/about">About</a>'
+          instance="blog"
+          rewriteAttributes
+        />
+      );
+
+      expect(screen.getByAltText('Cat')).toHaveAttribute('src', '/atx/blog/wp-assets/wp-content/uploads/cat.jpg');
+      expect(screen.getByAltText('Cat').closest('form')).toHaveAttribute('action', '/atx/blog/wp');
+      expect(screen.getByText('About')).toHaveAttribute('href', '/about');
+    });
+
+    it('should warn about comment forms that still post to WordPress in development', () => {
+      const originalEnv = process.env.NODE_ENV;
+      (process.env as Record<string, string | undefined>).NODE_ENV = 'development';
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      render(<Content content='<form action="https://wp.example.com/wp-comments-post.php" method="post"></form>' rewriteAttributes />);
+
+      expect(consoleWarn).toHaveBeenCalledWith(
+        '[Content] Kept 1 WordPress URL(s) without a proxy route, which still point at the WordPress instance:',
+        '<form action="https://wp.example.com/wp-comments-post.php">'
+      );
+      consoleWarn.mockRestore();
+      (process.env as Record<string, string | undefined>).NODE_ENV = originalEnv;
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  attributesToProps,
+  DOMNode,
+  Element,
+} from 'html-react-parser';
+import type { ElementProps, CustomParser } from '@/utils/parseHtml';
+import { resolveAssetUrl } from '@/utils/resolveAssetUrl';
+import { rewriteSrcSet } from '@/utils/rewriteSrcSet';
+import { mapRoute, RouteMap } from '@/utils/mapRoute';
+
+/**
+ * How a URL attribute is rewritten
+ *
+ * - page: WordPress page URLs map to frontend routes, e.g. '/about'
+ * - media: WordPress media URLs map to /atx/:slug/wp-assets (or wp-internal-assets for core files)
+ * - srcset: each candidate is rewritten as media
+ * - action: WordPress endpoints map to their proxy routes, other URLs are treated as pages
+ */
+export type UrlAttributeKind = 'page' | 'media' | 'srcset' | 'action';
+
+/**
+ * Maps tag names ('*' for any tag) to the URL attributes to rewrite on them
+ */
+export type AttributeRewrites = Record<string, Record<string, UrlAttributeKind>>;
+
+export interface AttributeRewritingOptions {
+  /** WordPress instance slug used in the /atx/:slug proxy routes */
+  instance: string;
+  wpHomeUrl?: string;
+  wpSiteUrl?: string;
+  /** Attributes to rewrite. Defaults to DEFAULT_ATTRIBUTE_REWRITES. */
+  rewrites?: AttributeRewrites;
+  /** Maps WordPress paths to frontend routes for page URLs */
+  routes?: RouteMap;
+  /**
+   * Called for WordPress URLs that are kept because no route covers them, e.g. a comment form
+   * posting to wp-comments-post.php. They still point at the WordPress instance.
+   */
+  onUnrewritten?: (attribute: UnrewrittenAttribute) => void;
+}
+
+/**
+ * A WordPress URL the parser kept as-is
+ */
+export interface UnrewrittenAttribute {
+  element: string;
+  attribute: string;
+  value: string;
+}
+
+/**
+ * Media, form and block data attributes that point at WordPress.
+ * Anchor hrefs are left to the URL rewriting parser, which renders links with linksAs.
+ */
+export const DEFAULT_ATTRIBUTE_REWRITES: AttributeRewrites = {
+  img: { src: 'media', srcset: 'srcset' },
+  source: { src: 'media', srcset: 'srcset' },
+  video: { src: 'media', poster: 'media' },
+  audio: { src: 'media' },
+  track: { src: 'media' },
+  object: { data: 'media' },
+  form: { action: 'action' },
+  '*': {
+    'data-src': 'media',
+    'data-srcset': 'srcset',
+    'data-full-url': 'media',
+    'data-orig-file': 'media',
+    'data-large-file': 'media',
+    'data-medium-file': 'media',
+    'data-href': 'page',
+    'data-link': 'page',
+  },
+};
+
+function parseUrl(url: string, base?: string): URL | null {
+  try {
+    return new URL(url, base);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the path of a URL relative to a base URL, or null when the URL is outside it
+ */
+function getRelativePath(url: URL, base: URL | null): string | null {
+  if (!base || url.origin !== base.origin) {
+    return null;
+  }
+
+  const basePath = base.pathname.replace(/\/+$/, '');
+  if (url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+    return null;
+  }
+
+  return url.pathname.slice(basePath.length) || '/';
+}
+
+/**
+ * Creates a rewriting pass for URL attributes in WordPress content.
+ *
+ * Only absolute and protocol-relative URLs on the instance's home or site URL are rewritten;
+ * relative URLs and other origins are kept, and so are WordPress endpoints without a proxy
+ * route, which are reported to onUnrewritten. The parser updates the element's attributes and
+ * props in place and never renders, so it must run before the parsers that should see the
+ * rewritten URLs.
+ */
+export function createAttributeRewritingParser(options: AttributeRewritingOptions): CustomParser {
+  const { instance, wpHomeUrl, wpSiteUrl, rewrites = DEFAULT_ATTRIBUTE_REWRITES, routes = [], onUnrewritten } = options;
+  const homeUrl = wpHomeUrl ? parseUrl(wpHomeUrl) : null;
+  const siteUrl = wpSiteUrl ? parseUrl(wpSiteUrl) : homeUrl;
+
+  const toInstanceUrl = (value: string): URL | null => {
+    const trimmed = value.trim();
+    if (!trimmed.startsWith('//') && !/^[a-z][a-z\d+.-]*:/i.test(trimmed)) {
+      return null;
+    }
+
+    const url = parseUrl(trimmed, (homeUrl || siteUrl)?.href);
+    if (!url || (url.origin !== homeUrl?.origin && url.origin !== siteUrl?.origin)) {
+      return null;
+    }
+    return url;
+  };
+
+  const rewritePage = (value: string): string => {
+    const url = toInstanceUrl(value);
+    if (!url) {
+      return value;
+    }
+
+    const path = getRelativePath(url, homeUrl) ?? getRelativePath(url, siteUrl);
+    return path === null ? value : mapRoute(`${path}${url.search}${url.hash}`, routes);
+  };
+
+  const rewriteMedia = (value: string): string => (
+    toInstanceUrl(value)
+      ? resolveAssetUrl(value.trim(), { instance, wpHomeUrl, wpSiteUrl })
+      : value
+  );
+
+  const rewriteAction = (value: string): string => {
+    const url = toInstanceUrl(value);
+    if (!url) {
+      return value;
+    }
+
+    const sitePath = getRelativePath(url, siteUrl);
+    const homePath = getRelativePath(url, homeUrl);
+
+    if (sitePath === '/wp-admin/admin-ajax.php') {
+      return `/atx/${instance}/wp${url.search}`;
+    }
+    if (homePath?.startsWith('/wp-json/')) {
+      return `/atx/${instance}${homePath}${url.search}`;
+    }
+    if (homePath === '/' && url.searchParams.has('wc-ajax')) {
+      return `/atx/${instance}/wc${url.search}`;
+    }
+    if ((sitePath ?? homePath)?.endsWith('.php')) {
+      // No proxy route for other WordPress endpoints, e.g. wp-comments-post.php
+      return value;
+    }
+
+    return rewritePage(value);
+  };
+
+  const rewriters: Record<UrlAttributeKind, (value: string) => string> = {
+    page: rewritePage,
+    media: rewriteMedia,
+    srcset: (value) => rewriteSrcSet(value, rewriteMedia),
+    action: rewriteAction,
+  };
+
+  return (node: DOMNode, props: ElementProps): JSX.Element | undefined => {
+    const element = node as Element;
+    if (!element.attribs || (!homeUrl && !siteUrl)) {
+      return undefined;
+    }
+
+    const attributes = { ...rewrites['*'], ...rewrites[element.name] };
+    const rewritten: Record<string, string> = {};
+
+    for (const [attribute, kind] of Object.entries(attributes)) {
+      const value = element.attribs[attribute];
+      if (!value) {
+        continue;
+      }
+
+      const nextValue = rewriters[kind](value);
+      if (nextValue !== value) {
+        rewritten[attribute] = nextValue;
+      } else if (onUnrewritten && kind !== 'srcset' && toInstanceUrl(value)) {
+        onUnrewritten({ element: element.name, attribute, value });
+      }
+    }
+
+    if (Object.keys(rewritten).length > 0) {
+      Object.assign(element.attribs, rewritten);
+      Object.assign(props, attributesToProps(rewritten));
+    }
+
+    return undefined;
+  };
+}
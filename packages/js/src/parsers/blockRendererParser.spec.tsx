@@ -0,0 +1,147 @@
+import React, { memo } from 'react';
+import { render, screen } from '../testing/utils';
+import { parseHtml } from '../utils/parseHtml';
+import { Content } from '../Content';
+import {
+  BlockRendererProps,
+  createBlockRendererParser,
+  getBlockClassName,
+} from './blockRendererParser';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+function Gallery({ attributes, classNames, children, match, tagName }: BlockRendererProps) {
+  return (
+    <section data-testid="gallery" data-match={match} data-tag={tagName} data-classes={classNames.join(',')} id={attributes.id as string}>
+      {children}
+    </section>
+  );
+}
+
+function Image({ attributes, children }: BlockRendererProps) {
+  return <div data-testid="image" className={attributes.className as string}>{children}</div>;
+}
+
+describe('blockRendererParser', () => {
+  describe('getBlockClassName', () => {
+    it('should map core blocks to wp-block-* classes', () => {
+      expect(getBlockClassName('core/image')).toBe('wp-block-image');
+      expect(getBlockClassName('core/media-text')).toBe('wp-block-media-text');
+    });
+
+    it('should include the namespace for other blocks', () => {
+      expect(getBlockClassName('woocommerce/cart')).toBe('wp-block-woocommerce-cart');
+    });
+
+    it('should return class names unchanged', () => {
+      expect(getBlockClassName('wp-block-embed')).toBe('wp-block-embed');
+      expect(getBlockClassName('is-style-rounded')).toBe('is-style-rounded');
+    });
+  });
+
+  describe('createBlockRendererParser', () => {
+    it('should render registered components for wp-block-* markers', () => {
+      const parser = createBlockRendererParser({ 'wp-block-gallery': Gallery });
+
+      render(<div>{parseHtml('<figure id="g1" class="wp-block-gallery has-nested-images"><p>Inner</p></figure>', parser)}</div>);
+
+      const gallery = screen.getByTestId('gallery');
+      expect(gallery).toHaveAttribute('data-match', 'wp-block-gallery');
+      expect(gallery).toHaveAttribute('data-tag', 'figure');
+      expect(gallery).toHaveAttribute('data-classes', 'wp-block-gallery,has-nested-images');
+      expect(gallery).toHaveAttribute('id', 'g1');
+      expect(gallery.querySelector('p')).toHaveTextContent('Inner');
+    });
+
+    it('should match block names', () => {
+      const parser = createBlockRendererParser({ 'core/image': Image });
+
+      render(<div>{parseHtml('<figure class="wp-block-image size-large"><img src="/a.jpg" alt="A" /></figure>', parser)}</div>);
+
+      expect(screen.getByTestId('image')).toHaveClass('wp-block-image', 'size-large');
+      expect(screen.getByAltText('A')).toBeInTheDocument();
+    });
+
+    it('should match data-block-name attributes', () => {
+      const parser = createBlockRendererParser({ 'woocommerce/cart': Image });
+
+      render(<div>{parseHtml('<div data-block-name="woocommerce/cart" class="wc-block-cart">Cart</div>', parser)}</div>);
+
+      expect(screen.getByTestId('image')).toHaveTextContent('Cart');
+    });
+
+    it('should render nested blocks with the registry', () => {
+      const parser = createBlockRendererParser({ 'core/gallery': Gallery, 'core/image': Image });
+
+      render(<div>{parseHtml(
+        '<figure class="wp-block-gallery"><figure class="wp-block-image"><img src="/a.jpg" alt="A" /></figure><figure class="wp-block-image"><img src="/b.jpg" alt="B" /></figure></figure>',
+        parser
+      )}</div>);
+
+      expect(screen.getByTestId('gallery')).toContainElement(screen.getAllByTestId('image')[1]);
+      expect(screen.getAllByTestId('image')).toHaveLength(2);
+    });
+
+    it('should not match partial class names', () => {
+      const parser = createBlockRendererParser({ 'core/image': Image });
+
+      render(<div>{parseHtml('<figure class="wp-block-image-caption">Caption</figure>', parser)}</div>);
+
+      expect(screen.queryByTestId('image')).not.toBeInTheDocument();
+      expect(screen.getByText('Caption').tagName).toBe('FIGURE');
+    });
+
+    it('should accept memoized components', () => {
+      const parser = createBlockRendererParser({ 'core/image': memo(Image) });
+
+      render(<div>{parseHtml('<figure class="wp-block-image">Memo</figure>', parser)}</div>);
+
+      expect(screen.getByTestId('image')).toHaveTextContent('Memo');
+    });
+
+    it('should wrap streaming renderers in a Suspense boundary', () => {
+      const parser = createBlockRendererParser({ 'core/image': { component: Image, streaming: true } });
+      const result = parser(
+        { type: 'tag', name: 'figure', attribs: { class: 'wp-block-image' }, children: [] } as any,
+        { className: 'wp-block-image' }
+      );
+
+      expect(result?.type).toBe(React.Suspense);
+      expect(result?.props.fallback.type).toBe('figure');
+    });
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    it('should render block renderers and rewrite links inside them', () => {
+      render(
+        <Content
+          content='<div class="wp-block-group"><a href="https://wp.example.com/about">About</a></div>'
+          blockRenderers={{ 'core/group': Gallery }}
+        />
+      );
+
+      expect(screen.getByTestId('gallery')).toBeInTheDocument();
+      expect(screen.getByText('About')).toHaveAttribute('href', '/about');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import React, { ComponentType, ReactNode, Suspense } from 'react';
+import {
+  DOMNode,
+  domToReact,
+  Element,
+} from 'html-react-parser';
+import type { ElementProps, CustomParser } from '@/utils/parseHtml';
+
+/**
+ * Props passed to a registered block renderer
+ */
+export interface BlockRendererProps {
+  /** Registry key that matched the element, e.g. 'core/image' or 'wp-block-image' */
+  match: string;
+  /** Tag name of the matched element, e.g. 'figure' */
+  tagName: string;
+  /** Element attributes as React props (className, style, data-*, ...) */
+  attributes: ElementProps;
+  /** Class names of the matched element */
+  classNames: string[];
+  /** Block name from the data-block-name attribute, when present */
+  blockName?: string;
+  /** The element's children, parsed with the same parsers as the surrounding content */
+  children?: ReactNode;
+}
+
+export type BlockRenderer = ComponentType<BlockRendererProps>;
+
+export interface BlockRendererOptions {
+  component: BlockRenderer;
+  /**
+   * Wraps the renderer in a Suspense boundary that shows the block's original markup
+   * while an async renderer streams in
+   */
+  streaming?: boolean;
+}
+
+/**
+ * Maps block names ('core/image'), wp-block-* markers ('wp-block-image') or any
+ * class name ('is-style-rounded') to a renderer
+ */
+export type BlockRenderers = Record<string, BlockRenderer | BlockRendererOptions>;
+
+/**
+ * Gets the class name WordPress adds for a block name.
+ * 'core/image' becomes 'wp-block-image', 'woocommerce/cart' becomes 'wp-block-woocommerce-cart'.
+ * Keys without a namespace are treated as class names and returned unchanged.
+ */
+export function getBlockClassName(key: string): string {
+  const separator = key.indexOf('/');
+  if (separator === -1) {
+    return key;
+  }
+
+  const namespace = key.slice(0, separator);
+  const name = key.slice(separator + 1);
+  return namespace === 'core' ? `wp-block-${name}` : `wp-block-${namespace}-${name}`;
+}
+
+function isRendererOptions(entry: BlockRenderer | BlockRendererOptions): entry is BlockRendererOptions {
+  // Components can be objects too (memo, forwardRef), which carry $$typeof
+  return typeof entry === 'object' && entry !== null && 'component' in entry && !('$$typeof' in entry);
+}
+
+/**
+ * Creates a parser that renders registered React components in place of matching blocks.
+ *
+ * An element matches when its class list contains the key's class name, or its
+ * data-block-name attribute equals the key. The first matching key wins. Renderers receive
+ * the element's attributes and parsed children as props, so client components can be used.
+ */
+export function createBlockRendererParser(renderers: BlockRenderers): CustomParser {
+  const entries = Object.entries(renderers).map(([key, entry]) => ({
+    key,
+    className: getBlockClassName(key),
+    ...(isRendererOptions(entry) ? entry : { component: entry }),
+  }));
+
+  return (node: DOMNode, props: ElementProps, children?: DOMNode[] | DOMNode, renderChildren?): JSX.Element | undefined => {
+    const element = node as Element;
+    if (!element.attribs) {
+      return undefined;
+    }
+
+    const classNames = (element.attribs.class || '').split(/\s+/).filter(Boolean);
+    const blockName = element.attribs['data-block-name'];
+    const entry = entries.find(({ key, className }) => classNames.includes(className) || blockName === key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const childNodes = children ? ([] as DOMNode[]).concat(children) : [];
+    let parsedChildren: ReactNode;
+    if (childNodes.length > 0) {
+      parsedChildren = renderChildren
+        ? renderChildren(childNodes)
+        : domToReact(childNodes as Element[]);
+    }
+
+    const Renderer = entry.component;
+    const rendered = (
+      <Renderer
+        match={entry.key}
+        tagName={element.name}
+        attributes={props}
+        classNames={classNames}
+        blockName={blockName}
+      >
+        {parsedChildren}
+      </Renderer>
+    );
+
+    if (!entry.streaming) {
+      return rendered;
+    }
+
+    const Tag = element.name as keyof JSX.IntrinsicElements;
+    return (
+      <Suspense fallback={<Tag {...props}>{parsedChildren}</Tag>}>
+        {rendered}
+      </Suspense>
+    );
+  };
+}
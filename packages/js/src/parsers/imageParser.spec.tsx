@@ -0,0 +1,153 @@
+import React from 'react';
+import { render, screen } from '../testing/utils';
+import { parseHtml } from '../utils/parseHtml';
+import { Content } from '../Content';
+import { ContentImageProps, createImageParser } from './imageParser';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+function Image({ src, alt, width, height, srcSet, sizes, className }: ContentImageProps) {
+  return (
+    <span
+      data-testid="image"
+      data-src={src}
+      data-alt={alt}
+      data-width={width}
+      data-height={height}
+      data-srcset={srcSet}
+      data-sizes={sizes}
+      className={className}
+    />
+  );
+}
+
+const wpImage = '<img src="https://wp.example.com/wp-content/uploads/2024/01/cat.jpg" alt="Cat" width="1024" height="768" class="wp-image-42 size-large" srcset="https://wp.example.com/wp-content/uploads/2024/01/cat.jpg 1024w, https://wp.example.com/wp-content/uploads/2024/01/cat-300x225.jpg 300w" sizes="(max-width: 1024px) 100vw, 1024px" />';
+
+const instanceUrls = {
+  instance: 'default',
+  wpHomeUrl: 'https://wp.example.com',
+  wpSiteUrl: 'https://wp.example.com',
+};
+
+describe('imageParser', () => {
+  describe('createImageParser', () => {
+    it('should render wp-image-* images with the image component', () => {
+      const parser = createImageParser({ ImageComponent: Image });
+
+      render(<div>{parseHtml(wpImage, parser)}</div>);
+
+      const image = screen.getByTestId('image');
+      expect(image).toHaveAttribute('data-src', 'https://wp.example.com/wp-content/uploads/2024/01/cat.jpg');
+      expect(image).toHaveAttribute('data-alt', 'Cat');
+      expect(image).toHaveAttribute('data-width', '1024');
+      expect(image).toHaveAttribute('data-height', '768');
+      expect(image).toHaveAttribute('data-sizes', '(max-width: 1024px) 100vw, 1024px');
+      expect(image).toHaveClass('wp-image-42', 'size-large');
+    });
+
+    it('should pass numeric dimensions', () => {
+      const ImageComponent = jest.fn(() => null);
+      const parser = createImageParser({ ImageComponent });
+
+      render(<div>{parseHtml(wpImage, parser)}</div>);
+
+      expect(ImageComponent).toHaveBeenCalledWith(
+        expect.objectContaining({ width: 1024, height: 768 }),
+        undefined
+      );
+    });
+
+    it('should ignore images that are not from the media library', () => {
+      const parser = createImageParser({ ImageComponent: Image });
+
+      render(<div>{parseHtml('<img src="https://cdn.example.com/logo.png" alt="Logo" width="10" height="10" class="wp-image-logo" />', parser)}</div>);
+
+      expect(screen.queryByTestId('image')).not.toBeInTheDocument();
+      expect(screen.getByAltText('Logo')).toHaveAttribute('src', 'https://cdn.example.com/logo.png');
+    });
+
+    it('should render a plain img when dimensions are missing', () => {
+      const parser = createImageParser({ ImageComponent: Image });
+
+      render(<div>{parseHtml('<img src="https://wp.example.com/wp-content/uploads/a.jpg" alt="A" class="wp-image-1" />', parser)}</div>);
+
+      expect(screen.queryByTestId('image')).not.toBeInTheDocument();
+      expect(screen.getByAltText('A').tagName).toBe('IMG');
+    });
+
+    it('should default alt to an empty string', () => {
+      const parser = createImageParser({ ImageComponent: Image });
+
+      render(<div>{parseHtml('<img src="/a.jpg" width="10" height="10" class="wp-image-1" />', parser)}</div>);
+
+      expect(screen.getByTestId('image')).toHaveAttribute('data-alt', '');
+    });
+
+    it('should rewrite media URLs and srcset candidates through the proxy', () => {
+      const parser = createImageParser({ ImageComponent: Image, proxyMedia: true, ...instanceUrls });
+
+      render(<div>{parseHtml(wpImage, parser)}</div>);
+
+      const image = screen.getByTestId('image');
+      expect(image).toHaveAttribute('data-src', '/atx/default/wp-assets/wp-content/uploads/2024/01/cat.jpg');
+      expect(image).toHaveAttribute(
+        'data-srcset',
+        '/atx/default/wp-assets/wp-content/uploads/2024/01/cat.jpg 1024w, /atx/default/wp-assets/wp-content/uploads/2024/01/cat-300x225.jpg 300w'
+      );
+    });
+
+    it('should keep media on other origins as-is when proxying', () => {
+      const parser = createImageParser({ ImageComponent: Image, proxyMedia: true, ...instanceUrls });
+
+      render(<div>{parseHtml('<img src="https://cdn.example.com/cat.jpg" alt="Cat" width="10" height="10" class="wp-image-7" />', parser)}</div>);
+
+      expect(screen.getByTestId('image')).toHaveAttribute('data-src', 'https://cdn.example.com/cat.jpg');
+    });
+
+    it('should proxy media without an image component', () => {
+      const parser = createImageParser({ proxyMedia: true, ...instanceUrls });
+
+      render(<div>{parseHtml(wpImage, parser)}</div>);
+
+      const image = screen.getByAltText('Cat');
+      expect(image.tagName).toBe('IMG');
+      expect(image).toHaveAttribute('src', '/atx/default/wp-assets/wp-content/uploads/2024/01/cat.jpg');
+      expect(image).toHaveAttribute('width', '1024');
+    });
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    it('should leave images untouched by default', () => {
+      render(<Content content={wpImage} />);
+
+      expect(screen.getByAltText('Cat')).toHaveAttribute('src', 'https://wp.example.com/wp-content/uploads/2024/01/cat.jpg');
+    });
+
+    it('should render images with imagesAs through the instance proxy', () => {
+      render(<Content content={`<figure class="wp-block-image">${wpImage}</figure>`} imagesAs={Image} proxyImages instance="blog" />);
+
+      expect(screen.getByTestId('image')).toHaveAttribute('data-src', '/atx/blog/wp-assets/wp-content/uploads/2024/01/cat.jpg');
+      expect(mockGetWPInstance).toHaveBeenCalledWith('blog');
+    });
+  });
+});
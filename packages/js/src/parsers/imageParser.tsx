@@ -0,0 +1,77 @@
+import React, { ImgHTMLAttributes, JSXElementConstructor } from 'react';
+import { DOMNode, Element } from 'html-react-parser';
+import type { ElementProps, CustomParser } from '@/utils/parseHtml';
+import { resolveAssetUrl } from '@/utils/resolveAssetUrl';
+import { rewriteSrcSet } from '@/utils/rewriteSrcSet';
+
+/**
+ * Props passed to the image component. Compatible with next/image.
+ */
+export type ContentImageProps = Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'alt' | 'width' | 'height'> & {
+  src: string;
+  alt: string;
+  width?: number;
+  height?: number;
+};
+
+export type ContentImageComponent = JSXElementConstructor<ContentImageProps>;
+
+export interface ImageParserOptions {
+  /** Component rendered in place of WordPress images, e.g. next/image. Defaults to a plain img. */
+  ImageComponent?: ContentImageComponent;
+  /** WordPress instance slug, required to proxy media URLs */
+  instance?: string;
+  wpHomeUrl?: string;
+  wpSiteUrl?: string;
+  /** Rewrites media URLs, including srcset candidates, through /atx/:slug/wp-assets */
+  proxyMedia?: boolean;
+}
+
+/**
+ * Class WordPress adds to images inserted from the media library, e.g. wp-image-42
+ */
+const WP_IMAGE_CLASS = /(?:^|\s)wp-image-\d+(?:\s|$)/;
+
+function toDimension(value: unknown): number | undefined {
+  const dimension = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(dimension) && dimension > 0 ? dimension : undefined;
+}
+
+/**
+ * Creates a parser that renders WordPress media library images (img.wp-image-*) with an image component.
+ *
+ * The component receives the image's numeric width and height, srcSet and sizes along with its
+ * other attributes. Images without both dimensions are rendered as a plain img, since components
+ * like next/image cannot size them. With proxyMedia, URLs on the WordPress instance are rewritten
+ * through the /atx/:slug/wp-assets proxy so they load from the Next.js origin.
+ */
+export function createImageParser(options: ImageParserOptions = {}): CustomParser {
+  const { ImageComponent, instance, wpHomeUrl, wpSiteUrl, proxyMedia = false } = options;
+
+  const rewrite = (url: string) => (
+    proxyMedia && instance ? resolveAssetUrl(url, { instance, wpHomeUrl, wpSiteUrl }) : url
+  );
+
+  return (node: DOMNode, props: ElementProps): JSX.Element | undefined => {
+    const element = node as Element;
+    if (element.name !== 'img' || !props.src || !WP_IMAGE_CLASS.test(element.attribs.class || '')) {
+      return undefined;
+    }
+
+    const { src, srcSet, alt, width, height, ...rest } = props as ElementProps & { srcSet?: string };
+    const imageProps = {
+      ...rest,
+      src: rewrite(src as string),
+      alt: (alt as string) || '',
+      ...(srcSet ? { srcSet: rewriteSrcSet(srcSet, rewrite) } : {}),
+    };
+
+    const imageWidth = toDimension(width);
+    const imageHeight = toDimension(height);
+    if (!ImageComponent || !imageWidth || !imageHeight) {
+      return <img {...imageProps} width={width as string} height={height as string} />;
+    }
+
+    return <ImageComponent {...imageProps} width={imageWidth} height={imageHeight} />;
+  };
+}
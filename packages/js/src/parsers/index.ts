@@ -1 +1,6 @@
-export * from './urlRewritingParser';
\ No newline at end of file
+export * from './urlRewritingParser';
+export * from './blockRendererParser';
+export * from './imageParser';
+export * from './attributeRewritingParser';
+export * from './sanitizingParser';
+export * from './scriptCollectingParser';
\ No newline at end of file
@@ -0,0 +1,210 @@
+import React from 'react';
+import { render, screen } from '../testing/utils';
+import { parseHtml, CustomParser } from '../utils/parseHtml';
+import { Content } from '../Content';
+import { createSanitizingParser, StrippedContent } from './sanitizingParser';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+function renderSanitized(html: string, ...parsers: CustomParser[]) {
+  const stripped: StrippedContent[] = [];
+  const parser = createSanitizingParser({}, (item) => stripped.push(item));
+  const result = render(<div data-testid="root">{parseHtml(html, parser, ...parsers)}</div>);
+  return { ...result, stripped };
+}
+
+describe('sanitizingParser', () => {
+  describe('elements', () => {
+    it('should keep allowed elements', () => {
+      const { stripped } = renderSanitized('<p class="intro">Hello <strong>world</strong></p>');
+
+      expect(screen.getByText('world').tagName).toBe('STRONG');
+      expect(screen.getByText(/Hello/)).toHaveClass('intro');
+      expect(stripped).toEqual([]);
+    });
+
+    it('should remove scripts and styles with their content', () => {
+      const { container, stripped } = renderSanitized('<p>Safe</p><script>alert(1)</script><style>body{display:none}</style>');
+
+      expect(container.querySelector('script')).toBeNull();
+      expect(container.querySelector('style')).toBeNull();
+      expect(screen.getByTestId('root')).toHaveTextContent(/^Safe$/);
+      expect(stripped).toEqual([
+        { type: 'element', element: 'script' },
+        { type: 'element', element: 'style' },
+      ]);
+    });
+
+    it('should unwrap other elements and sanitize their children', () => {
+      const { container } = renderSanitized('<form action="/x"><label>Name <b onclick="steal()">bold</b></label><input name="q" /></form>');
+
+      expect(container.querySelector('form')).toBeNull();
+      expect(container.querySelector('label')).toBeNull();
+      expect(container.querySelector('input')).toBeNull();
+      expect(screen.getByText('bold')).not.toHaveAttribute('onclick');
+      expect(screen.getByTestId('root')).toHaveTextContent('Name bold');
+    });
+
+    it('should use custom element allowlists', () => {
+      const parser = createSanitizingParser({ allowedElements: ['p'] });
+
+      const { container } = render(<div>{parseHtml('<p>Text <em>emphasis</em></p>', parser)}</div>);
+
+      expect(container.querySelector('em')).toBeNull();
+      expect(container.querySelector('p')).toHaveTextContent('Text emphasis');
+    });
+  });
+
+  describe('attributes', () => {
+    it('should remove event handlers', () => {
+      const { stripped } = renderSanitized('<img src="/a.jpg" alt="A" onerror="alert(1)" />');
+
+      expect(screen.getByAltText('A')).not.toHaveAttribute('onerror');
+      expect(stripped).toEqual([{ type: 'attribute', element: 'img', attribute: 'onerror', value: 'alert(1)' }]);
+    });
+
+    it('should remove attributes outside the allowlist', () => {
+      renderSanitized('<a href="/about" formaction="/x" data-id="1" aria-label="About">About</a>');
+
+      const link = screen.getByText('About');
+      expect(link).not.toHaveAttribute('formaction');
+      expect(link).toHaveAttribute('data-id', '1');
+      expect(link).toHaveAttribute('aria-label', 'About');
+    });
+
+    it('should remove URLs with disallowed schemes', () => {
+      renderSanitized('<a href="javascript:alert(1)">Bad</a><a href=" JaVa&#x09;Script:alert(1)">Obfuscated</a><a href="mailto:a@example.com">Mail</a><a href="/about">Relative</a>');
+
+      expect(screen.getByText('Bad')).not.toHaveAttribute('href');
+      expect(screen.getByText('Obfuscated')).not.toHaveAttribute('href');
+      expect(screen.getByText('Mail')).toHaveAttribute('href', 'mailto:a@example.com');
+      expect(screen.getByText('Relative')).toHaveAttribute('href', '/about');
+    });
+
+    it('should check every srcset candidate', () => {
+      renderSanitized('<img alt="A" src="/a.jpg" srcset="/a.jpg 1x, javascript:alert(1) 2x" />');
+
+      expect(screen.getByAltText('A')).not.toHaveAttribute('srcset');
+      expect(screen.getByAltText('A')).toHaveAttribute('src', '/a.jpg');
+    });
+
+    it('should remove unsafe styles', () => {
+      renderSanitized('<p style="width: expression(alert(1))">Bad</p><p style="color: red">Good</p>');
+
+      expect(screen.getByText('Bad')).not.toHaveAttribute('style');
+      expect(screen.getByText('Good')).toHaveStyle({ color: 'rgb(255, 0, 0)' });
+    });
+
+    it('should pass sanitized props to later parsers', () => {
+      const laterParser = jest.fn(() => undefined);
+
+      renderSanitized('<a href="javascript:alert(1)" onclick="x()">Link</a>', laterParser);
+
+      expect(laterParser).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'a', attribs: {} }),
+        {},
+        expect.anything(),
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe('embeds', () => {
+    it('should keep YouTube and Vimeo iframes', () => {
+      const { container } = renderSanitized(
+        '<iframe src="https://www.youtube.com/embed/abc" title="Video" allowfullscreen></iframe><iframe src="https://player.vimeo.com/video/1" title="Vimeo"></iframe>'
+      );
+
+      expect(container.querySelectorAll('iframe')).toHaveLength(2);
+    });
+
+    it('should remove iframes from other hosts', () => {
+      const { container, stripped } = renderSanitized(
+        '<iframe src="https://evil.example.com/embed"></iframe><iframe src="https://www.youtube.com.evil.example.com/embed"></iframe><iframe srcdoc="<script></script>"></iframe>'
+      );
+
+      expect(container.querySelector('iframe')).toBeNull();
+      expect(stripped).toHaveLength(3);
+    });
+
+    it('should use a custom embed allowlist', () => {
+      const parser = createSanitizingParser({ allowedEmbeds: ['maps.example.com'] });
+
+      const { container } = render(<div>{parseHtml(
+        '<iframe src="https://maps.example.com/map" title="Map"></iframe><iframe src="https://www.youtube.com/embed/abc"></iframe>',
+        parser
+      )}</div>);
+
+      expect(container.querySelectorAll('iframe')).toHaveLength(1);
+      expect(container.querySelector('iframe')).toHaveAttribute('title', 'Map');
+    });
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    it('should not sanitize by default', () => {
+      const { container } = render(<Content content='<iframe src="https://evil.example.com/embed"></iframe>' />);
+
+      expect(container.querySelector('iframe')).toBeInTheDocument();
+    });
+
+    it('should sanitize and report what was stripped', () => {
+      const onSanitize = jest.fn();
+
+      const { container } = render(
+        <Content
+          content='<p onclick="x()">Comment <a href="https://wp.example.com/about">about</a></p><script>alert(1)</script>'
+          sanitize
+          onSanitize={onSanitize}
+        />
+      );
+
+      expect(container.querySelector('script')).toBeNull();
+      expect(screen.getByText('about')).toHaveAttribute('href', '/about');
+      expect(onSanitize).toHaveBeenCalledTimes(1);
+      expect(onSanitize).toHaveBeenCalledWith([
+        { type: 'attribute', element: 'p', attribute: 'onclick', value: 'x()' },
+        { type: 'element', element: 'script' },
+      ]);
+    });
+
+    it('should sanitize block HTML', () => {
+      const { container } = render(
+        <Content
+          blocks={[{ name: 'core/html', innerHTML: '<div>Custom<script>alert(1)</script></div>' }]}
+          sanitize
+        />
+      );
+
+      expect(container.querySelector('script')).toBeNull();
+      expect(screen.getByText('Custom')).toBeInTheDocument();
+    });
+
+    it('should not call onSanitize when nothing was stripped', () => {
+      const onSanitize = jest.fn();
+
+      render(<Content content="<p>Clean</p>" sanitize onSanitize={onSanitize} />);
+
+      expect(onSanitize).not.toHaveBeenCalled();
+    });
+  });
+});
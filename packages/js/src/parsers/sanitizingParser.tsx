@@ -0,0 +1,197 @@
+import React, { Fragment } from 'react';
+import {
+  attributesToProps,
+  DOMNode,
+  Element,
+} from 'html-react-parser';
+import type { ElementProps, CustomParser } from '@/utils/parseHtml';
+
+export interface SanitizeOptions {
+  /** Elements to keep. Other elements are removed, keeping their children. */
+  allowedElements?: string[];
+  /**
+   * Attributes to keep, keyed by tag name ('*' for any tag). A trailing '*' matches
+   * a prefix, e.g. 'data-*'. Event handler attributes (on*) are always removed.
+   */
+  allowedAttributes?: Record<string, string[]>;
+  /** URL schemes allowed in URL attributes. Relative URLs are always allowed. */
+  allowedSchemes?: string[];
+  /** Hosts iframes may load from. Iframes with other sources are removed. */
+  allowedEmbeds?: string[];
+}
+
+/**
+ * Content removed by the sanitizer
+ */
+export interface StrippedContent {
+  type: 'element' | 'attribute';
+  /** Tag name of the removed element, or of the element the attribute was removed from */
+  element: string;
+  attribute?: string;
+  value?: string;
+}
+
+export const DEFAULT_ALLOWED_ELEMENTS = [
+  'a', 'abbr', 'address', 'article', 'aside', 'audio', 'b', 'bdi', 'bdo', 'blockquote', 'br',
+  'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt',
+  'em', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i',
+  'iframe', 'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'picture', 'pre', 'q', 's', 'samp',
+  'section', 'small', 'source', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td',
+  'tfoot', 'th', 'thead', 'time', 'tr', 'track', 'u', 'ul', 'var', 'video', 'wbr',
+];
+
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['class', 'id', 'title', 'lang', 'dir', 'style', 'role', 'aria-*', 'data-*'],
+  a: ['href', 'target', 'rel', 'name'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading', 'decoding'],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  video: ['src', 'poster', 'controls', 'width', 'height', 'preload', 'muted', 'loop', 'playsinline'],
+  audio: ['src', 'controls', 'preload', 'muted', 'loop'],
+  track: ['src', 'kind', 'srclang', 'label', 'default'],
+  iframe: ['src', 'width', 'height', 'title', 'allow', 'allowfullscreen', 'frameborder', 'loading', 'referrerpolicy'],
+  td: ['colspan', 'rowspan', 'headers'],
+  th: ['colspan', 'rowspan', 'headers', 'scope'],
+  col: ['span'],
+  colgroup: ['span'],
+  ol: ['start', 'reversed', 'type'],
+  li: ['value'],
+  time: ['datetime'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  del: ['cite', 'datetime'],
+  ins: ['cite', 'datetime'],
+  details: ['open'],
+};
+
+export const DEFAULT_ALLOWED_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+/**
+ * YouTube and Vimeo player hosts
+ */
+export const DEFAULT_ALLOWED_EMBEDS = [
+  'www.youtube.com',
+  'youtube.com',
+  'www.youtube-nocookie.com',
+  'player.vimeo.com',
+];
+
+/**
+ * Elements removed together with their content, rather than unwrapped
+ */
+const REMOVED_WITH_CONTENT = [
+  'script', 'style', 'iframe', 'object', 'embed', 'applet', 'frame', 'frameset', 'noscript',
+  'template', 'title', 'head', 'meta', 'link', 'base', 'textarea', 'select', 'svg', 'math',
+];
+
+const URL_ATTRIBUTES = ['href', 'src', 'poster', 'cite', 'action', 'formaction', 'data', 'background', 'xlink:href'];
+
+const UNSAFE_STYLE = /expression\s*\(|javascript:|vbscript:|-moz-binding/i;
+
+function isAllowedAttribute(attribute: string, allowed: string[]): boolean {
+  return allowed.some((pattern) => (
+    pattern.endsWith('*') ? attribute.startsWith(pattern.slice(0, -1)) : attribute === pattern
+  ));
+}
+
+/**
+ * Gets the scheme of a URL, ignoring the whitespace and control characters browsers ignore
+ *
+ * @returns The lowercase scheme, or null for relative URLs
+ */
+function getScheme(url: string): string | null {
+  const match = url.replace(/[\u0000- \u007F]/g, '').match(/^([a-z][a-z\d+.-]*):/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Creates a parser that removes unsafe markup from WordPress content.
+ *
+ * Elements outside the allowlist are removed, keeping their children, except for scripts, styles,
+ * embeds and similar elements, which are removed with their content. Attributes outside the
+ * allowlist, event handlers and URLs with disallowed schemes are removed from the element and its
+ * props in place. The parser must run before all other parsers, so they only see sanitized markup.
+ *
+ * @param options - Allowlists, defaulting to the DEFAULT_ALLOWED_* constants
+ * @param onStrip - Called for each removed element and attribute
+ */
+export function createSanitizingParser(options: SanitizeOptions = {}, onStrip?: (stripped: StrippedContent) => void): CustomParser {
+  const {
+    allowedElements = DEFAULT_ALLOWED_ELEMENTS,
+    allowedAttributes = DEFAULT_ALLOWED_ATTRIBUTES,
+    allowedSchemes = DEFAULT_ALLOWED_SCHEMES,
+    allowedEmbeds = DEFAULT_ALLOWED_EMBEDS,
+  } = options;
+
+  const isAllowedUrl = (url: string): boolean => {
+    const scheme = getScheme(url);
+    return scheme === null || allowedSchemes.includes(scheme);
+  };
+
+  const isAllowedEmbed = (src?: string): boolean => {
+    if (!src) {
+      return false;
+    }
+
+    try {
+      const url = new URL(src.trim(), 'https://nextpress.invalid');
+      return (url.protocol === 'https:' || url.protocol === 'http:') && allowedEmbeds.includes(url.hostname);
+    } catch {
+      return false;
+    }
+  };
+
+  const isSafeValue = (attribute: string, value: string): boolean => {
+    if (attribute === 'style') {
+      return !UNSAFE_STYLE.test(value);
+    }
+    if (attribute === 'srcset') {
+      return value.split(',').every((candidate) => isAllowedUrl(candidate.trim().split(/\s+/)[0] || ''));
+    }
+    if (URL_ATTRIBUTES.includes(attribute)) {
+      return isAllowedUrl(value);
+    }
+    return true;
+  };
+
+  return (node: DOMNode, props: ElementProps, children?: DOMNode[] | DOMNode, renderChildren?): JSX.Element | undefined => {
+    const element = node as Element;
+    const name = element.name;
+
+    if (
+      !allowedElements.includes(name)
+      || (name === 'iframe' && !isAllowedEmbed(element.attribs.src))
+    ) {
+      onStrip?.({ type: 'element', element: name });
+
+      // Unwrapped children are sanitized by the same parsers through renderChildren
+      const keepChildren = !REMOVED_WITH_CONTENT.includes(name) && children && renderChildren;
+      return <Fragment>{keepChildren ? renderChildren(children) : null}</Fragment>;
+    }
+
+    const allowed = [...(allowedAttributes['*'] || []), ...(allowedAttributes[name] || [])];
+    let stripped = false;
+
+    for (const [attribute, value] of Object.entries(element.attribs)) {
+      if (
+        !attribute.startsWith('on')
+        && isAllowedAttribute(attribute, allowed)
+        && isSafeValue(attribute, value)
+      ) {
+        continue;
+      }
+
+      onStrip?.({ type: 'attribute', element: name, attribute, value });
+      delete element.attribs[attribute];
+      stripped = true;
+    }
+
+    if (stripped) {
+      for (const key of Object.keys(props)) {
+        delete props[key];
+      }
+      Object.assign(props, attributesToProps(element.attribs));
+    }
+
+    return undefined;
+  };
+}
@@ -0,0 +1,134 @@
+import React from 'react';
+import { render, screen } from '../testing/utils';
+import { parseHtml } from '../utils/parseHtml';
+import { Content } from '../Content';
+import { ContentScript, createScriptCollectingParser, isExecutableScript } from './scriptCollectingParser';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+const options = {
+  instance: 'main',
+  wpHomeUrl: 'https://wp.example.com',
+  wpSiteUrl: 'https://wp.example.com',
+};
+
+function collect(html: string) {
+  const scripts: ContentScript[] = [];
+  const result = render(<div>{parseHtml(html, createScriptCollectingParser(options, (script) => scripts.push(script)))}</div>);
+  return { ...result, scripts };
+}
+
+describe('scriptCollectingParser', () => {
+  describe('isExecutableScript', () => {
+    it('should accept classic and module scripts', () => {
+      expect(isExecutableScript({})).toBe(true);
+      expect(isExecutableScript({ type: 'text/javascript' })).toBe(true);
+      expect(isExecutableScript({ type: 'module' })).toBe(true);
+    });
+
+    it('should reject data blocks and nomodule scripts', () => {
+      expect(isExecutableScript({ type: 'application/ld+json' })).toBe(false);
+      expect(isExecutableScript({ type: 'text/template' })).toBe(false);
+      expect(isExecutableScript({ nomodule: '' })).toBe(false);
+    });
+  });
+
+  describe('createScriptCollectingParser', () => {
+    it('should collect scripts in document order and remove them from the markup', () => {
+      const { container, scripts } = collect(
+        '<p>Before</p><script>window.a = 1;</script><div><script src="https://cdn.example.com/embed.js" async></script></div><script id="c">window.c = 3;</script>'
+      );
+
+      expect(container.querySelector('script')).toBeNull();
+      expect(screen.getByText('Before')).toBeInTheDocument();
+      expect(scripts).toEqual([
+        { content: 'window.a = 1;', attributes: {} },
+        { src: 'https://cdn.example.com/embed.js', attributes: { async: '' } },
+        { content: 'window.c = 3;', attributes: { id: 'c' } },
+      ]);
+    });
+
+    it('should proxy WordPress script URLs', () => {
+      const { scripts } = collect('<script src="https://wp.example.com/wp-content/plugins/forms/form.js?ver=2"></script>');
+
+      expect(scripts[0].src).toBe('/atx/main/wp-assets/wp-content/plugins/forms/form.js?ver=2');
+    });
+
+    it('should keep data blocks in the markup', () => {
+      const { container, scripts } = collect('<script type="application/ld+json">{"@type":"Article"}</script>');
+
+      expect(scripts).toEqual([]);
+      expect(container.querySelector('script[type="application/ld+json"]')).toHaveTextContent('{"@type":"Article"}');
+    });
+
+    it('should skip empty inline scripts', () => {
+      const { scripts } = collect('<script>  </script>');
+
+      expect(scripts).toEqual([]);
+    });
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    function Scripts({ scripts, instance }: { scripts: ContentScript[]; instance: string }) {
+      return <ol data-testid="scripts" data-instance={instance}>{scripts.map((script, i) => <li key={i}>{script.src || script.content}</li>)}</ol>;
+    }
+
+    it('should render scripts as-is without scriptsAs', () => {
+      const { container } = render(<Content content="<script>window.a = 1;</script>" />);
+
+      expect(container.querySelector('script')).toBeInTheDocument();
+    });
+
+    it('should pass collected scripts to scriptsAs', () => {
+      const { container } = render(
+        <Content
+          blocks={[
+            { name: 'core/html', innerHTML: '<div>First<script>window.a = 1;</script></div>' },
+            { name: 'core/embed', innerHTML: '<script src="https://cdn.example.com/embed.js"></script>' },
+          ]}
+          scriptsAs={Scripts}
+        />
+      );
+
+      expect(container.querySelector('script')).toBeNull();
+      expect(screen.getByTestId('scripts')).toHaveAttribute('data-instance', 'default');
+      const items = screen.getByTestId('scripts').querySelectorAll('li');
+      expect(Array.from(items).map((item) => item.textContent)).toEqual([
+        'window.a = 1;',
+        'https://cdn.example.com/embed.js',
+      ]);
+    });
+
+    it('should not render scriptsAs when the content has no scripts', () => {
+      render(<Content content="<p>No scripts</p>" scriptsAs={Scripts} />);
+
+      expect(screen.queryByTestId('scripts')).not.toBeInTheDocument();
+    });
+
+    it('should not collect scripts removed by the sanitizer', () => {
+      render(<Content content="<p>Comment</p><script>alert(1)</script>" scriptsAs={Scripts} sanitize />);
+
+      expect(screen.queryByTestId('scripts')).not.toBeInTheDocument();
+    });
+  });
+});
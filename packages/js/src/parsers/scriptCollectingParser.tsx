@@ -0,0 +1,79 @@
+import React, { Fragment } from 'react';
+import {
+  DOMNode,
+  Element,
+  Text,
+} from 'html-react-parser';
+import type { ElementProps, CustomParser } from '@/utils/parseHtml';
+import { resolveAssetUrl } from '@/utils/resolveAssetUrl';
+
+/**
+ * A script found in WordPress content, to be executed on the client by ContentScripts
+ */
+export interface ContentScript {
+  /** Script URL, proxied through /atx/:slug when it is a WordPress asset */
+  src?: string;
+  /** Inline script source */
+  content?: string;
+  /** Other attributes of the script tag, e.g. type, id, async, data-* */
+  attributes: Record<string, string>;
+}
+
+export interface ScriptCollectingOptions {
+  /** WordPress instance slug used in the /atx/:slug proxy routes */
+  instance: string;
+  wpHomeUrl?: string;
+  wpSiteUrl?: string;
+}
+
+/**
+ * Script types browsers execute. Other types, like application/ld+json, are data and stay in the markup.
+ */
+const EXECUTABLE_TYPES = [
+  '',
+  'module',
+  'text/javascript',
+  'application/javascript',
+  'text/ecmascript',
+  'application/ecmascript',
+];
+
+/**
+ * Checks whether a script tag would be executed by the browser
+ */
+export function isExecutableScript(attributes: Record<string, string>): boolean {
+  const type = (attributes.type || '').trim().toLowerCase();
+  return EXECUTABLE_TYPES.includes(type) && !('nomodule' in attributes);
+}
+
+/**
+ * Creates a parser that removes executable scripts from WordPress content and reports them in
+ * document order. React never executes scripts it renders, so the collected scripts are passed
+ * to ContentScripts to run on the client.
+ *
+ * @param onScript - Called for each script, in document order
+ */
+export function createScriptCollectingParser(options: ScriptCollectingOptions, onScript: (script: ContentScript) => void): CustomParser {
+  const { instance, wpHomeUrl, wpSiteUrl } = options;
+
+  return (node: DOMNode, props: ElementProps, children?: DOMNode[] | DOMNode): JSX.Element | undefined => {
+    const element = node as Element;
+    if (element.name !== 'script' || !isExecutableScript(element.attribs)) {
+      return undefined;
+    }
+
+    const { src, ...attributes } = element.attribs;
+    const content = ([] as DOMNode[])
+      .concat(children || [])
+      .map((child) => (child as Text).data || '')
+      .join('');
+
+    if (src) {
+      onScript({ src: resolveAssetUrl(src, { instance, wpHomeUrl, wpSiteUrl }), attributes });
+    } else if (content.trim()) {
+      onScript({ content, attributes });
+    }
+
+    return <Fragment />;
+  };
+}
@@ -0,0 +1,106 @@
+import React from 'react';
+import { render } from '../testing/utils';
+import { parseHtml } from '@/utils/parseHtml';
+import { createUrlRewritingParser, LinkedInstance } from './urlRewritingParser';
+import { Content } from '../Content';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+const blog = {
+  wpDomain: 'blog.example.com',
+  wpProtocol: 'https',
+  wpHomeUrl: 'https://blog.example.com',
+  wpSiteUrl: 'https://blog.example.com',
+  wpGraphqlUrl: 'https://blog.example.com/graphql',
+};
+
+const shop = {
+  wpDomain: 'shop.example.com',
+  wpProtocol: 'https',
+  wpHomeUrl: 'https://shop.example.com',
+  wpSiteUrl: 'https://shop.example.com/wp',
+  wpGraphqlUrl: 'https://shop.example.com/graphql',
+};
+
+function renderLinks(html: string, linkedInstances: LinkedInstance[] = []) {
+  const parser = createUrlRewritingParser(blog.wpHomeUrl, blog.wpSiteUrl, undefined, [], linkedInstances);
+  const { container } = render(<div>{parseHtml(html, parser)}</div>);
+  return Array.from(container.querySelectorAll('a')).map((link) => link.getAttribute('href'));
+}
+
+describe('createUrlRewritingParser', () => {
+  it('should rewrite links to the instance', () => {
+    expect(renderLinks('<a href="https://blog.example.com/hello-world/?ref=1#top">Post</a>')).toEqual([
+      '/hello-world/?ref=1#top',
+    ]);
+  });
+
+  it('should keep links to other origins', () => {
+    expect(renderLinks('<a href="https://example.org/page/">External</a>', [shop])).toEqual([
+      'https://example.org/page/',
+    ]);
+  });
+
+  it('should rewrite links to linked instances with their routes', () => {
+    const hrefs = renderLinks(
+      '<a href="https://shop.example.com/product/hoodie/">Hoodie</a><a href="https://shop.example.com/wp/cart/">Cart</a>',
+      [{ ...shop, routes: [{ source: '/product/:slug', destination: '/shop/:slug' }] }]
+    );
+
+    expect(hrefs).toEqual(['/shop/hoodie/', '/cart/']);
+  });
+
+  it('should not apply the routes of another instance', () => {
+    const parser = createUrlRewritingParser(
+      blog.wpHomeUrl,
+      blog.wpSiteUrl,
+      undefined,
+      [{ source: '/product/:slug', destination: '/blog-products/:slug' }],
+      [shop]
+    );
+    const { container } = render(<div>{parseHtml('<a href="https://shop.example.com/product/hoodie/">Hoodie</a>', parser)}</div>);
+
+    expect(container.querySelector('a')).toHaveAttribute('href', '/product/hoodie/');
+  });
+
+  it('should prefer the longest matching instance URL', () => {
+    const docs = { wpHomeUrl: 'https://blog.example.com/docs', routes: [{ source: '/:slug', destination: '/help/:slug' }] };
+
+    expect(renderLinks('<a href="https://blog.example.com/docs/setup/">Setup</a>', [docs])).toEqual(['/help/setup/']);
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue(blog);
+      mockGetAllWPInstances.mockReturnValue({ blog, shop });
+      process.env.wcr_routes = JSON.stringify({
+        shop: [{ source: '/product/:slug', destination: '/shop/:slug' }],
+      });
+    });
+
+    afterEach(() => {
+      delete process.env.wcr_routes;
+    });
+
+    it('should rewrite links to every configured instance', () => {
+      const { container } = render(
+        <Content
+          content='<a href="https://blog.example.com/news/">News</a><a href="https://shop.example.com/product/hoodie/">Hoodie</a>'
+          instance="blog"
+        />
+      );
+
+      const hrefs = Array.from(container.querySelectorAll('a')).map((link) => link.getAttribute('href'));
+      expect(hrefs).toEqual(['/news/', '/shop/hoodie/']);
+    });
+  });
+});
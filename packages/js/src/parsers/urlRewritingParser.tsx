@@ -5,23 +5,63 @@ import {
   Element,
 } from 'html-react-parser';
 import type { ElementProps, CustomParser } from '@/utils/parseHtml';
+import { mapRoute, RouteMap } from '@/utils/mapRoute';
+
+/**
+ * A WordPress instance whose URLs are rewritten to frontend routes
+ */
+export interface LinkedInstance {
+  wpHomeUrl?: string;
+  wpSiteUrl?: string;
+  /** Maps the instance's paths to frontend routes */
+  routes?: RouteMap;
+}
+
+/**
+ * Finds the instance URL a link starts with. The longest URL wins, so an instance installed
+ * in a subdirectory is told apart from one on the same domain. Ties go to the earlier instance.
+ */
+function findInstanceUrl(href: string, instances: LinkedInstance[]): { url: string; routes: RouteMap } | null {
+  let match: { url: string; routes: RouteMap } | null = null;
+
+  for (const { wpHomeUrl, wpSiteUrl, routes = [] } of instances) {
+    for (const url of [wpHomeUrl, wpSiteUrl]) {
+      if (url && href.startsWith(url) && (!match || url.length > match.url.length)) {
+        match = { url, routes };
+      }
+    }
+  }
+
+  return match;
+}
 
 /**
  * Creates a URL rewriting parser that converts WordPress URLs to local Next.js routes
+ *
+ * @param routes - Maps WordPress paths to frontend routes. Without a matching entry, the route equals the WordPress path.
+ * @param linkedInstances - Other WordPress instances whose links are rewritten too, each with its own routes
  */
-export function createUrlRewritingParser(wpHomeUrl?: string, wpSiteUrl?: string, LinkComponent = 'a' as unknown as FC<JSX.IntrinsicElements['a']>): CustomParser {
-  return (node: DOMNode, props: ElementProps, children?: DOMNode[] | DOMNode): JSX.Element | undefined => {
+export function createUrlRewritingParser(
+  wpHomeUrl?: string,
+  wpSiteUrl?: string,
+  LinkComponent = 'a' as unknown as FC<JSX.IntrinsicElements['a']>,
+  routes: RouteMap = [],
+  linkedInstances: LinkedInstance[] = []
+): CustomParser {
+  const instances = [{ wpHomeUrl, wpSiteUrl, routes }, ...linkedInstances];
+  const hasInstanceUrls = instances.some((instance) => instance.wpHomeUrl || instance.wpSiteUrl);
+
+  return (node: DOMNode, props: ElementProps, children?: DOMNode[] | DOMNode, renderChildren?): JSX.Element | undefined => {
     const element = node as Element;
 
     // Handle anchor tag URL rewriting
-    if (element.name === 'a' && props.href && (wpHomeUrl || wpSiteUrl)) {
+    if (element.name === 'a' && props.href && hasInstanceUrls) {
       let href = props.href as string;
 
       // Rewrite WordPress URLs to local routes
-      if (wpHomeUrl && href.startsWith(wpHomeUrl)) {
-        href = href.replace(wpHomeUrl, '');
-      } else if (wpSiteUrl && href.startsWith(wpSiteUrl)) {
-        href = href.replace(wpSiteUrl, '');
+      const match = findInstanceUrl(href, instances);
+      if (match) {
+        href = href.slice(match.url.length);
       }
 
       // Ensure href starts with / for local routes
@@ -29,11 +69,16 @@ export function createUrlRewritingParser(wpHomeUrl?: string, wpSiteUrl?: string,
         href = '/' + href;
       }
 
+      // Map WordPress permalinks to their frontend routes
+      if (match) {
+        href = mapRoute(href, match.routes);
+      }
+
       // Only return if href was actually changed
       if (href !== props.href) {
         return (
           <LinkComponent {...props} href={href}>
-            {children && domToReact(children as Element[])}
+            {children && (renderChildren ? renderChildren(children) : domToReact(children as Element[]))}
           </LinkComponent>
         );
       }
@@ -41,4 +86,4 @@ export function createUrlRewritingParser(wpHomeUrl?: string, wpSiteUrl?: string,
 
     return undefined;
   };
-}
\ No newline at end of file
+}
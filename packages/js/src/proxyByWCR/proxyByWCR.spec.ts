@@ -25,6 +25,7 @@ describe('proxyByWCR', () => {
       wpProtocol: 'https',
       wpHomeUrl: `https://${slug}.example.com`,
       wpSiteUrl: `https://${slug}.example.com/wp`,
+      wpGraphqlUrl: `https://${slug}.example.com/graphql`,
     }));
   });
 
@@ -90,6 +91,19 @@ describe('proxyByWCR', () => {
       expect(response).toBeDefined();
     });
 
+    it('should forward the query string to wpSiteUrl', async () => {
+      const request = createMockRequest(
+        'https://nextjs.example.com/atx/main/wp-internal-assets/wp-includes/js/dist/hooks.js?ver=6.4.2',
+        '/atx/main/wp-internal-assets/wp-includes/js/dist/hooks.js'
+      );
+
+      const response = await proxyByWCR(request);
+
+      expect((response as unknown as { url: string }).url).toBe(
+        'https://main.example.com/wp/wp-includes/js/dist/hooks.js?ver=6.4.2'
+      );
+    });
+
     it('should handle nested paths in wp-internal-assets', async () => {
       const request = createMockRequest(
         'https://nextjs.example.com/atx/shop/wp-internal-assets/wp-includes/css/dist/block-library/style.min.css',
@@ -116,6 +130,19 @@ describe('proxyByWCR', () => {
       expect(response).toBeDefined();
     });
 
+    it('should forward the query string to wpHomeUrl', async () => {
+      const request = createMockRequest(
+        'https://nextjs.example.com/atx/main/wp-assets/wp-content/themes/theme/style.css?ver=1.2.0',
+        '/atx/main/wp-assets/wp-content/themes/theme/style.css'
+      );
+
+      const response = await proxyByWCR(request);
+
+      expect((response as unknown as { url: string }).url).toBe(
+        'https://main.example.com/wp-content/themes/theme/style.css?ver=1.2.0'
+      );
+    });
+
     it('should handle plugin assets', async () => {
       const request = createMockRequest(
         'https://nextjs.example.com/atx/main/wp-assets/wp-content/plugins/woocommerce/assets/css/woocommerce.css',
@@ -372,6 +399,49 @@ describe('proxyByWCR', () => {
     });
   });
 
+  describe('Content-Security-Policy', () => {
+    beforeEach(() => {
+      (getWPInstanceModule.getAllWPInstances as jest.Mock).mockReturnValue({ blog: mockGetWPInstance('blog') });
+    });
+
+    it('should add a policy with a fresh nonce to pages', async () => {
+      const first = await proxyByWCR(createMockRequest('https://nextjs.example.com/shop', '/shop'), { csp: true });
+      const second = await proxyByWCR(createMockRequest('https://nextjs.example.com/shop', '/shop'), { csp: true });
+
+      const nonce = first.headers.get('x-nonce');
+      expect(nonce).toMatch(/^[A-Za-z0-9+/]+=*$/);
+      expect(second.headers.get('x-nonce')).not.toBe(nonce);
+      expect(first.headers.get('Content-Security-Policy')).toContain(`script-src 'self' 'nonce-${nonce}' 'strict-dynamic';`);
+      // The WordPress backends are not named in the policy
+      expect(first.headers.get('Content-Security-Policy')).not.toContain('blog.example.com');
+    });
+
+    it('should pass the policy options on', async () => {
+      const response = await proxyByWCR(
+        createMockRequest('https://nextjs.example.com/shop', '/shop'),
+        { csp: { trustedTypes: true } }
+      );
+
+      expect(response.headers.get('Content-Security-Policy')).toContain('trusted-types nextpress');
+    });
+
+    it('should not add a policy to proxied assets', async () => {
+      const response = await proxyByWCR(
+        createMockRequest('https://nextjs.example.com/atx/blog/wp-assets/theme.js', '/atx/blog/wp-assets/theme.js'),
+        { csp: true }
+      );
+
+      expect(response.headers.get('Content-Security-Policy')).toBeNull();
+    });
+
+    it('should not add a policy by default', async () => {
+      const response = await proxyByWCR(createMockRequest('https://nextjs.example.com/shop', '/shop'));
+
+      expect(response.headers.get('x-nonce')).toBeNull();
+      expect(response.headers.get('Content-Security-Policy')).toBeNull();
+    });
+  });
+
   describe('isProxiedRoute helper', () => {
     it('should identify wp-ajax routes', () => {
       expect(isProxiedRoute('/atx/main/wp')).toBe(true);
@@ -403,6 +473,7 @@ describe('proxyByWCR', () => {
       expect(isProxiedRoute('/some-route')).toBe(false);
       expect(isProxiedRoute('/atx/main')).toBe(false);
       expect(isProxiedRoute('/atx/main/unknown-route')).toBe(false);
+      expect(isProxiedRoute('/atx/main/proxiee')).toBe(false);
     });
   });
 });
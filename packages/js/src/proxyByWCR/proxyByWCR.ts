@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getWPInstance } from '../config/getWPInstance';
+import { createCspHeader, CspHeaderOptions } from '../utils/createCspHeader';
+import { generateNonce } from '../utils/nonce';
 
 /**
  * Extracts the WordPress instance slug from the URL path
@@ -11,21 +13,6 @@ function extractSlugFromPath(pathname: string): string | null {
   return match ? match[1] : null;
 }
 
-/**
- * Encodes a string using XOR cipher with salt
- */
-function encodeWithSalt(data: string, salt: string): string {
-  const textBytes = Buffer.from(data, 'utf8');
-  const saltBytes = Buffer.from(salt, 'utf8');
-  const encoded = Buffer.alloc(textBytes.length);
-
-  for (let i = 0; i < textBytes.length; i++) {
-    encoded[i] = textBytes[i] ^ saltBytes[i % saltBytes.length];
-  }
-
-  return encoded.toString('base64');
-}
-
 /**
  * Checks if a pathname matches WordPress proxy route patterns
  * @param pathname - The request pathname to check
@@ -33,7 +20,6 @@ function encodeWithSalt(data: string, salt: string): string {
  */
 export function isProxiedRoute(pathname: string): boolean {
   return !!(
-    pathname.match(/^\/atx\/[^/]+\/proxiee$/) ||
     pathname.match(/^\/atx\/[^/]+\/wp-internal-assets\//) ||
     pathname.match(/^\/atx\/[^/]+\/wp-assets\//) ||
     pathname.match(/^\/atx\/[^/]+\/wp-json\//) ||
@@ -42,32 +28,58 @@ export function isProxiedRoute(pathname: string): boolean {
   );
 }
 
-export async function proxyByWCR(request: Request & { nextUrl: { pathname: string } }) {
+export interface ProxyByWCROptions {
+  /**
+   * Adds a Content-Security-Policy with a fresh nonce to routes that are passed through.
+   * The nonce is forwarded in the x-nonce request header, for the NextPress components.
+   */
+  csp?: boolean | Omit<CspHeaderOptions, 'nonce'>;
+}
+
+export async function proxyByWCR(
+  request: Request & { nextUrl: { pathname: string } },
+  { csp }: ProxyByWCROptions = {}
+) {
   const requestHeaders = new Headers(request.headers);
   requestHeaders.set('x-url', request.url);
   const nextPath = request.nextUrl.pathname;
 
-  // Check if this is a WordPress proxy route pattern
-  if (!isProxiedRoute(nextPath)) {
-    // Not a WordPress proxy route, pass through to application routes
-    return NextResponse.next({
+  // Pass through to application routes
+  const next = () => {
+    let cspHeader: string | undefined;
+    if (csp) {
+      const nonce = generateNonce();
+      cspHeader = createCspHeader({ ...(csp === true ? {} : csp), nonce });
+      requestHeaders.set('x-nonce', nonce);
+      // Next.js reads the nonce for its own scripts from the request's policy
+      requestHeaders.set('Content-Security-Policy', cspHeader);
+    }
+
+    const response = NextResponse.next({
       request: {
         ...request,
         headers: requestHeaders,
       },
     });
+
+    if (cspHeader) {
+      response.headers.set('Content-Security-Policy', cspHeader);
+    }
+
+    return response;
+  };
+
+  // Check if this is a WordPress proxy route pattern
+  if (!isProxiedRoute(nextPath)) {
+    // Not a WordPress proxy route, pass through to application routes
+    return next();
   }
 
   // Extract slug from path
   const slug = extractSlugFromPath(nextPath);
   if (!slug) {
     // Not a proxied route, pass through
-    return NextResponse.next({
-      request: {
-        ...request,
-        headers: requestHeaders,
-      },
-    });
+    return next();
   }
 
   // Get WordPress instance config
@@ -79,23 +91,13 @@ export async function proxyByWCR(request: Request & { nextUrl: { pathname: strin
     return new NextResponse('WordPress instance not found', { status: 404 });
   }
 
-  // Handler for WordPress backend URL retrieval (obscured endpoint)
-  // Used by client components to determine if script URLs are external or WordPress assets
-  const backendUrlPattern = new RegExp(`^/atx/${slug}/proxiee$`);
-  if (backendUrlPattern.test(nextPath) && request.method === 'POST') {
-    // Get salt from environment (set by withWCR)
-    const salt = process.env.NEXTPRESS_SALT || 'nextpress-default-salt';
-    // Encode using XOR cipher with salt
-    const encoded = encodeWithSalt(instance.wpHomeUrl, salt);
-    return NextResponse.json({ d: encoded });
-  }
-
   //Proxy handler for WP internal assets e.g. (.js, .css, .png, etc.) from wp-includes
+  // Query strings (e.g. ver=) are forwarded to keep cache busting intact
   if (nextPath.match(/^\/atx\/[^/]+\/wp-internal-assets\//)) {
     const scriptUrl = nextPath.replace(
       /^\/atx\/[^/]+\/wp-internal-assets\/(.*)/,
       `${instance.wpSiteUrl}/$1`
-    );
+    ) + new URL(request.url).search;
 
     return NextResponse.rewrite(scriptUrl);
   }
@@ -105,7 +107,7 @@ export async function proxyByWCR(request: Request & { nextUrl: { pathname: strin
     const scriptUrl = nextPath.replace(
       /^\/atx\/[^/]+\/wp-assets\/(.*)/,
       `${instance.wpHomeUrl}/$1`
-    );
+    ) + new URL(request.url).search;
 
     return NextResponse.rewrite(scriptUrl);
   }
@@ -164,12 +166,7 @@ export async function proxyByWCR(request: Request & { nextUrl: { pathname: strin
     });
   }
 
-  return NextResponse.next({
-    request: {
-      ...request,
-      headers: requestHeaders,
-    },
-  });
+  return next();
 }
 
 /**
@@ -177,7 +174,6 @@ export async function proxyByWCR(request: Request & { nextUrl: { pathname: strin
  * Use this in your middleware.ts config.matcher
  */
 export const proxyMatcher = [
-  '/atx/:slug/proxiee',
   '/atx/:slug/wp',
   '/atx/:slug/wc',
   '/atx/:slug/wp-internal-assets/:path*',
@@ -67,6 +67,20 @@ export type EnqueuedScript = {
   version?: Maybe<Scalars['String']['output']>;
 };
 
+export type EnqueuedScriptModule = {
+  __typename?: 'EnqueuedScriptModule';
+  /** Identifiers of the modules imported statically */
+  dependencies?: Maybe<Array<Maybe<Scalars['String']['output']>>>;
+  /** Identifiers of the modules imported dynamically */
+  dynamicDependencies?: Maybe<Array<Maybe<Scalars['String']['output']>>>;
+  /** The module identifier. Ex: "@wordpress/block-library/navigation/view" */
+  id: Scalars['String']['output'];
+  /** The source of the module, including the version query */
+  src?: Maybe<Scalars['String']['output']>;
+  /** The version of the module */
+  version?: Maybe<Scalars['String']['output']>;
+};
+
 export type EnqueuedStylesheet = {
   __typename?: 'EnqueuedStylesheet';
   /** The inline code to be run after the asset is loaded. */
@@ -109,4 +123,13 @@ export type EnqueuedStylesheet = {
   title?: Maybe<Scalars['String']['output']>;
   /** The version of the enqueued style */
   version?: Maybe<Scalars['String']['output']>;
-}
\ No newline at end of file
+}
+export type UriAssetsInteractivity = {
+  __typename?: 'UriAssetsInteractivity';
+  /** JSON-encoded Interactivity API configuration, keyed by store namespace */
+  config?: Maybe<Scalars['String']['output']>;
+  /** The URL of the Interactivity API runtime module */
+  runtimeSrc?: Maybe<Scalars['String']['output']>;
+  /** JSON-encoded Interactivity API state, keyed by store namespace */
+  state?: Maybe<Scalars['String']['output']>;
+};
@@ -0,0 +1,107 @@
+import { createCspHeader } from './createCspHeader';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+
+const instances = {
+  blog: {
+    wpDomain: 'blog.example.com',
+    wpProtocol: 'https',
+    wpHomeUrl: 'https://blog.example.com',
+    wpSiteUrl: 'https://blog.example.com/wp',
+    wpGraphqlUrl: 'https://blog.example.com/graphql',
+  },
+  shop: {
+    wpDomain: 'shop.example.com',
+    wpProtocol: 'https',
+    wpHomeUrl: 'https://shop.example.com',
+    wpSiteUrl: 'https://cms.shop.example.com',
+    wpGraphqlUrl: 'https://cms.shop.example.com/graphql',
+  },
+};
+
+function parsePolicy(header: string): Record<string, string[]> {
+  return header.split('; ').reduce<Record<string, string[]>>((policy, directive) => {
+    const [name, ...sources] = directive.split(' ');
+    policy[name] = sources;
+    return policy;
+  }, {});
+}
+
+describe('createCspHeader', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetWPInstance.mockImplementation((slug) => instances[slug as keyof typeof instances]);
+  });
+
+  it('should leave the instance origins out by default', () => {
+    const policy = parsePolicy(createCspHeader());
+
+    expect(policy['default-src']).toEqual(["'self'"]);
+    expect(policy['img-src']).toEqual(["'self'", 'data:', 'blob:']);
+    expect(policy['script-src']).toEqual(["'self'"]);
+    expect(policy['connect-src']).toEqual(["'self'"]);
+    expect(policy['object-src']).toEqual(["'none'"]);
+    expect(mockGetWPInstance).not.toHaveBeenCalled();
+  });
+
+  it('should allow the origins of the given instances', () => {
+    const policy = parsePolicy(createCspHeader({ instances: ['shop'] }));
+
+    expect(policy['img-src']).toEqual([
+      "'self'",
+      'data:',
+      'blob:',
+      'https://shop.example.com',
+      'https://cms.shop.example.com',
+    ]);
+    expect(policy['script-src']).toEqual(["'self'", 'https://shop.example.com', 'https://cms.shop.example.com']);
+    expect(policy['connect-src']).toEqual(["'self'", 'https://shop.example.com', 'https://cms.shop.example.com']);
+  });
+
+  it('should require the nonce for scripts and styles', () => {
+    const policy = parsePolicy(createCspHeader({ nonce: 'abc123', instances: ['blog'] }));
+
+    // 'strict-dynamic' ignores host sources, so the instance origins stay out of script-src
+    expect(policy['script-src']).toEqual(["'self'", "'nonce-abc123'", "'strict-dynamic'"]);
+    expect(policy['style-src']).toEqual(["'self'", "'nonce-abc123'", 'https://blog.example.com']);
+    expect(policy['style-src-attr']).toEqual(["'unsafe-inline'"]);
+  });
+
+  it('should leave host sources out of script-src with a nonce', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const policy = parsePolicy(createCspHeader({
+      nonce: 'abc123',
+      directives: { 'script-src': ['https://js.stripe.com', "'unsafe-eval'"] },
+    }));
+
+    expect(policy['script-src']).toEqual(["'self'", "'nonce-abc123'", "'strict-dynamic'", "'unsafe-eval'"]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[createCspHeader]'), 'https://js.stripe.com');
+    warn.mockRestore();
+  });
+
+  it('should require Trusted Types', () => {
+    expect(parsePolicy(createCspHeader({ trustedTypes: true }))).toMatchObject({
+      'require-trusted-types-for': ["'script'"],
+      'trusted-types': ['nextpress', 'nextjs#bundler'],
+    });
+    expect(parsePolicy(createCspHeader({ trustedTypes: 'my-site' }))['trusted-types']).toEqual(['my-site', 'nextjs#bundler']);
+  });
+
+  it('should merge additional directives', () => {
+    const policy = parsePolicy(createCspHeader({
+      directives: {
+        'script-src': ['https://js.stripe.com', "'self'"],
+        'frame-src': ['https://www.youtube.com'],
+      },
+    }));
+
+    expect(policy['script-src']).toEqual(["'self'", 'https://js.stripe.com']);
+    expect(policy['frame-src']).toEqual(['https://www.youtube.com']);
+  });
+});
@@ -0,0 +1,101 @@
+import { getWPInstance } from '@/config/getWPInstance';
+
+export interface CspHeaderOptions {
+  /** Nonce for script-src and style-src, e.g. from generateNonce */
+  nonce?: string;
+  /**
+   * Instance slugs whose backend origins are allowed, for content that links media to WordPress
+   * directly. Defaults to none, since proxied assets are same-origin.
+   */
+  instances?: string[];
+  /** Requires Trusted Types and allows the NextPress policy. Pass a string for a custom policy name. */
+  trustedTypes?: boolean | string;
+  /** Additional sources per directive, e.g. { 'frame-src': ['https://www.youtube.com'] } */
+  directives?: Record<string, string[]>;
+}
+
+/**
+ * Gets the origins of the WordPress instances, which content links media, fonts and embeds to
+ */
+function getInstanceOrigins(slugs: string[]): string[] {
+  const origins = new Set<string>();
+
+  slugs.forEach((slug) => {
+    const { wpHomeUrl, wpSiteUrl } = getWPInstance(slug);
+    [wpHomeUrl, wpSiteUrl].forEach((url) => {
+      try {
+        origins.add(new URL(url).origin);
+      } catch {
+        console.warn(`[createCspHeader] Ignoring invalid URL of instance "${slug}": ${url}`);
+      }
+    });
+  });
+
+  return Array.from(origins);
+}
+
+/**
+ * Whether a source is a host or scheme source, e.g. 'https://js.stripe.com' or 'https:',
+ * rather than a keyword, nonce or hash
+ */
+function isHostSource(source: string): boolean {
+  return !source.startsWith("'");
+}
+
+/**
+ * Creates a Content-Security-Policy header value for pages rendered with NextPress.
+ *
+ * Assets loaded through the /atx/:slug proxy are same-origin and covered by 'self', so the
+ * WordPress backends stay out of the policy unless instances opts them in.
+ * With a nonce, scripts and styles need the nonce, which HeadScripts, BodyScripts and the other
+ * loaders set on every element they inject, and 'strict-dynamic' trusts the scripts they load.
+ * Host sources are left out of script-src then, since 'strict-dynamic' makes browsers ignore them.
+ *
+ * @returns Header value, e.g. "default-src 'self'; script-src 'self' 'nonce-...' ..."
+ */
+export function createCspHeader({
+  nonce,
+  instances = [],
+  trustedTypes = false,
+  directives = {},
+}: CspHeaderOptions = {}): string {
+  const origins = getInstanceOrigins(instances);
+  const nonceSources = nonce ? [`'nonce-${nonce}'`] : [];
+
+  const policy: Record<string, string[]> = {
+    'default-src': ["'self'"],
+    'script-src': ["'self'", ...(nonce ? [...nonceSources, "'strict-dynamic'"] : origins)],
+    'style-src': ["'self'", ...nonceSources, ...origins],
+    // Block markup relies on style attributes
+    'style-src-attr': ["'unsafe-inline'"],
+    'img-src': ["'self'", 'data:', 'blob:', ...origins],
+    'font-src': ["'self'", 'data:', ...origins],
+    'media-src': ["'self'", ...origins],
+    'connect-src': ["'self'", ...origins],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+  };
+
+  if (trustedTypes) {
+    const policyName = typeof trustedTypes === 'string' ? trustedTypes : 'nextpress';
+    policy['require-trusted-types-for'] = ["'script'"];
+    // nextjs#bundler is the policy Next.js loads its chunks with
+    policy['trusted-types'] = [policyName, 'nextjs#bundler'];
+  }
+
+  Object.entries(directives).forEach(([directive, sources]) => {
+    policy[directive] = [...(policy[directive] || []), ...sources];
+  });
+
+  if (nonce && policy['script-src'].some(isHostSource)) {
+    console.warn(
+      "[createCspHeader] Ignoring host sources in script-src, 'strict-dynamic' trusts the scripts NextPress loads instead:",
+      policy['script-src'].filter(isHostSource).join(' ')
+    );
+    policy['script-src'] = policy['script-src'].filter((source) => !isHostSource(source));
+  }
+
+  return Object.entries(policy)
+    .map(([directive, sources]) => [directive, ...Array.from(new Set(sources))].join(' '))
+    .join('; ');
+}
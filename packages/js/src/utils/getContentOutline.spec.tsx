@@ -0,0 +1,134 @@
+import React from 'react';
+import { render } from '../testing/utils';
+import { normalizeHtml } from './normalizeHtml';
+import { assignHeadingIds, getContentOutline, slugifyHeading } from './getContentOutline';
+import { Content } from '../Content';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+const content = `
+  <h1>Guide</h1>
+  <h2>Getting Started</h2>
+  <p>Intro</p>
+  <h3>Install &amp; Configure</h3>
+  <h4 id="env">Environment</h4>
+  <h3>Usage</h3>
+  <h2>FAQ</h2>
+  <h3>Usage</h3>
+`;
+
+describe('getContentOutline', () => {
+  describe('slugifyHeading', () => {
+    it('should create lowercase slugs', () => {
+      expect(slugifyHeading('Getting Started!')).toBe('getting-started');
+      expect(slugifyHeading('  Install & Configure  ')).toBe('install-configure');
+    });
+
+    it('should strip diacritics', () => {
+      expect(slugifyHeading('Café Crème')).toBe('cafe-creme');
+    });
+  });
+
+  describe('assignHeadingIds', () => {
+    it('should add suffixes to duplicate IDs', () => {
+      const headings = assignHeadingIds(normalizeHtml('<h2>Usage</h2><h2>Usage</h2><h3>Usage</h3>'));
+
+      expect(headings.map(({ id }) => id)).toEqual(['usage', 'usage-2', 'usage-3']);
+    });
+
+    it('should not reuse IDs of other elements', () => {
+      const headings = assignHeadingIds(normalizeHtml('<h2>Cart</h2><div id="cart"></div>'));
+
+      expect(headings[0].id).toBe('cart-2');
+    });
+
+    it('should share used IDs across calls', () => {
+      const usedIds = new Set<string>();
+      assignHeadingIds(normalizeHtml('<h2>Usage</h2>'), usedIds);
+
+      expect(assignHeadingIds(normalizeHtml('<h2>Usage</h2>'), usedIds)[0].id).toBe('usage-2');
+    });
+
+    it('should fall back for headings without text', () => {
+      expect(assignHeadingIds(normalizeHtml('<h2><img src="/a.jpg" /></h2>'))[0].id).toBe('section');
+    });
+  });
+
+  it('should list h2-h6 headings in document order', () => {
+    const { headings } = getContentOutline(content);
+
+    expect(headings).toEqual([
+      { id: 'getting-started', text: 'Getting Started', level: 2 },
+      { id: 'install-configure', text: 'Install & Configure', level: 3 },
+      { id: 'env', text: 'Environment', level: 4 },
+      { id: 'usage', text: 'Usage', level: 3 },
+      { id: 'faq', text: 'FAQ', level: 2 },
+      { id: 'usage-2', text: 'Usage', level: 3 },
+    ]);
+  });
+
+  it('should nest headings by level', () => {
+    const { items } = getContentOutline(content);
+
+    expect(items.map(({ id, children }) => [id, children.map((child) => child.id)])).toEqual([
+      ['getting-started', ['install-configure', 'usage']],
+      ['faq', ['usage-2']],
+    ]);
+    expect(items[0].children[0].children[0].id).toBe('env');
+  });
+
+  it('should keep skipped levels at the top', () => {
+    const { items } = getContentOutline('<h3>Deep</h3><h2>Top</h2>');
+
+    expect(items.map(({ id }) => id)).toEqual(['deep', 'top']);
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    it('should render the outline IDs with headingIds', () => {
+      const { container } = render(<Content content={content} headingIds />);
+
+      const renderedIds = Array.from(container.querySelectorAll('h2, h3, h4, h5, h6')).map((heading) => heading.id);
+      expect(renderedIds).toEqual(getContentOutline(content).headings.map(({ id }) => id));
+    });
+
+    it('should not add IDs by default', () => {
+      const { container } = render(<Content content="<h2>Title</h2>" />);
+
+      expect(container.querySelector('h2')).not.toHaveAttribute('id');
+    });
+
+    it('should keep IDs unique across blocks', () => {
+      const { container } = render(
+        <Content
+          blocks={[
+            { name: 'core/heading', innerHTML: '<h2>Usage</h2>' },
+            { name: 'core/heading', innerHTML: '<h2>Usage</h2>' },
+          ]}
+          headingIds
+        />
+      );
+
+      expect(Array.from(container.querySelectorAll('h2')).map((heading) => heading.id)).toEqual(['usage', 'usage-2']);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { DOMNode, Element, Text } from 'html-react-parser';
+import { normalizeHtml } from './normalizeHtml';
+
+/**
+ * A heading in the content outline
+ */
+export interface OutlineItem {
+  /** Heading ID, usable as an anchor: `#${id}` */
+  id: string;
+  /** Heading text */
+  text: string;
+  /** Heading level, 2 to 6 */
+  level: number;
+  /** Headings of a lower level that follow this heading */
+  children: OutlineItem[];
+}
+
+export interface ContentOutline {
+  /** Headings in document order */
+  headings: Omit<OutlineItem, 'children'>[];
+  /** Headings nested by level, for rendering a table of contents */
+  items: OutlineItem[];
+}
+
+const HEADINGS = ['h2', 'h3', 'h4', 'h5', 'h6'];
+
+function walk(nodes: DOMNode[], visit: (element: Element) => void) {
+  for (const node of nodes) {
+    if (node instanceof Element) {
+      visit(node);
+      walk(node.children as DOMNode[], visit);
+    }
+  }
+}
+
+function getText(nodes: DOMNode[]): string {
+  return nodes
+    .map((node) => (node instanceof Text ? node.data : node instanceof Element ? getText(node.children as DOMNode[]) : ''))
+    .join('');
+}
+
+/**
+ * Converts heading text to an ID, e.g. 'Getting Started!' to 'getting-started'
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Assigns IDs to h2-h6 headings that have none. IDs are slugs of the heading text, with a
+ * numeric suffix for duplicates. Existing IDs are kept and never reused.
+ *
+ * @param nodes - Nodes from normalizeHtml, updated in place
+ * @param usedIds - IDs already used in the document, shared across calls for the blocks of one document
+ * @returns The headings in document order
+ */
+export function assignHeadingIds(nodes: DOMNode[], usedIds: Set<string> = new Set()): ContentOutline['headings'] {
+  const headings: ContentOutline['headings'] = [];
+
+  // Reserve existing IDs first, so generated IDs never collide with later elements
+  walk(nodes, (element) => {
+    if (element.attribs.id) {
+      usedIds.add(element.attribs.id);
+    }
+  });
+
+  walk(nodes, (element) => {
+    if (!HEADINGS.includes(element.name)) {
+      return;
+    }
+
+    const text = getText(element.children as DOMNode[]).replace(/\s+/g, ' ').trim();
+    if (!element.attribs.id) {
+      const base = slugifyHeading(text) || 'section';
+      let id = base;
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `${base}-${suffix}`;
+      }
+      usedIds.add(id);
+      element.attribs.id = id;
+    }
+
+    headings.push({ id: element.attribs.id, text, level: Number(element.name.slice(1)) });
+  });
+
+  return headings;
+}
+
+/**
+ * Nests headings by level. A heading becomes a child of the closest preceding heading with a lower level.
+ */
+function buildOutline(headings: ContentOutline['headings']): OutlineItem[] {
+  const items: OutlineItem[] = [];
+  const stack: OutlineItem[] = [];
+
+  for (const heading of headings) {
+    const item: OutlineItem = { ...heading, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= item.level) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(item);
+    } else {
+      items.push(item);
+    }
+    stack.push(item);
+  }
+
+  return items;
+}
+
+/**
+ * Gets the outline of WordPress content for a table of contents.
+ *
+ * The content is parsed and normalized like Content does, and heading IDs are assigned with
+ * the same rules, so the IDs match what `<Content content={content} headingIds />` renders.
+ *
+ * @param content - WordPress HTML content
+ */
+export function getContentOutline(content: string): ContentOutline {
+  const headings = assignHeadingIds(normalizeHtml(content));
+
+  return {
+    headings,
+    items: buildOutline(headings),
+  };
+}
@@ -0,0 +1,23 @@
+import type { EnqueuedScript } from '@/types';
+import { hashString } from './hashString';
+
+/**
+ * Gets the key of a script in the loaders' caches. Keys are scoped by instance, since two
+ * WordPress instances can enqueue the same handle, e.g. jquery, from different URLs.
+ *
+ * @param fallback - Key for scripts without id, handle or src
+ */
+export function getScriptCacheKey(script: EnqueuedScript, instance: string, fallback = ''): string {
+  return `${instance}:${script.id || script.handle || script.src || fallback}`;
+}
+
+/**
+ * Gets a key for a list of scripts that only changes when a script or its inline code does.
+ * Loaders compare it between renders, since each render of a page can pass a new array.
+ */
+export function getScriptsKey(scripts: EnqueuedScript[], instance: string): string {
+  const handles = scripts.map((script, index) => getScriptCacheKey(script, instance, `inline-${index + 1}`));
+  const inlineCode = scripts.map((script) => [script.extraData, script.before, script.after]);
+
+  return `${handles.join(',')}:${hashString(JSON.stringify(inlineCode))}`;
+}
@@ -0,0 +1,11 @@
+/**
+ * Hashes a string into a short, stable key (djb2). Not suitable for security purposes.
+ */
+export function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+
+  return (hash >>> 0).toString(36);
+}
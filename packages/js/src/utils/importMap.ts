@@ -0,0 +1,66 @@
+import { EnqueuedScriptModule, Maybe } from '../types';
+import { resolveAssetUrl, ResolveAssetUrlOptions } from './resolveAssetUrl';
+
+/**
+ * An import map, as printed by WordPress in `<script type="importmap">`
+ */
+export type ImportMap = {
+  /** Module URLs keyed by module identifier, e.g. '@wordpress/interactivity' */
+  imports: Record<string, string>;
+  scopes?: Record<string, Record<string, string>>;
+};
+
+/**
+ * An EnqueuedScriptModule whose final URL was resolved on the server by resolveScriptModules
+ */
+export type ResolvedScriptModule = EnqueuedScriptModule & {
+  /** Final URL to import: the original src for external modules, or an /atx/:slug proxy path */
+  resolvedSrc?: Maybe<string>;
+};
+
+function rewriteSpecifierMap(specifiers: Record<string, string>, options: ResolveAssetUrlOptions): Record<string, string> {
+  return Object.entries(specifiers).reduce<Record<string, string>>((rewritten, [specifier, url]) => {
+    rewritten[specifier] = resolveAssetUrl(url, options);
+    return rewritten;
+  }, {});
+}
+
+/**
+ * Rewrites the module URLs in an import map to the URLs the browser should load them from.
+ * WordPress modules are mapped to /atx/:slug proxy paths, see resolveAssetUrl for the rules.
+ *
+ * URLs that already point at the instance's proxy routes are kept, so the map can be
+ * rewritten on the server with the instance URLs and again on the client.
+ *
+ * @param importMap - Import map from assetsByUri
+ * @param options - Instance slug and instance URLs
+ */
+export function rewriteImportMap(importMap: ImportMap, options: ResolveAssetUrlOptions): ImportMap {
+  const rewritten: ImportMap = { imports: rewriteSpecifierMap(importMap.imports || {}, options) };
+
+  if (importMap.scopes) {
+    rewritten.scopes = Object.entries(importMap.scopes).reduce<Record<string, Record<string, string>>>(
+      (scopes, [scope, specifiers]) => {
+        scopes[resolveAssetUrl(scope, options)] = rewriteSpecifierMap(specifiers, options);
+        return scopes;
+      },
+      {}
+    );
+  }
+
+  return rewritten;
+}
+
+/**
+ * Gets the URL a loader should import a script module from.
+ * Uses the server-resolved URL when present, otherwise proxies the src.
+ *
+ * @returns The module URL, or an empty string for modules without a src
+ */
+export function getScriptModuleSrc(module: ResolvedScriptModule, instance: string): string {
+  if (module.resolvedSrc !== undefined) {
+    return module.resolvedSrc || '';
+  }
+
+  return module.src ? resolveAssetUrl(module.src, { instance }) : '';
+}
@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import { execFileSync } from 'child_process';
+import path from 'path';
+
+const packageRoot = path.resolve(__dirname, '../..');
+
+// Bundles importModule.ts with the client build's plugins (terser included) and
+// prints the generated code for each output format. Runs in a child process
+// because rollup loads its config through a dynamic import.
+const buildScript = `
+const path = require('path');
+const { rollup } = require('rollup');
+const { loadConfigFile } = require('rollup/loadConfigFile');
+
+(async () => {
+  const { options } = await loadConfigFile(path.resolve('rollup.config.js'), { bundleConfigAsCjs: true });
+  const client = options.find((config) => String(config.input).includes('index.client'));
+  const bundle = await rollup({ ...client, input: path.resolve('src/utils/importModule.ts') });
+  const result = {};
+  for (const output of client.output) {
+    const { output: [chunk] } = await bundle.generate({ format: output.format, exports: output.exports });
+    result[output.format] = chunk.code;
+  }
+  await bundle.close();
+  process.stdout.write(JSON.stringify(result));
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
+`;
+
+describe('importModule build output', () => {
+  it('keeps the bundler ignore comments on the dynamic import', () => {
+    const output = JSON.parse(
+      execFileSync(process.execPath, ['-e', buildScript], {
+        cwd: packageRoot,
+        encoding: 'utf8',
+      }),
+    ) as Record<string, string>;
+
+    expect(Object.keys(output).sort()).toEqual(['cjs', 'esm']);
+    for (const code of Object.values(output)) {
+      expect(code).toMatch(/import\(\/\* webpackIgnore: true \*\/ \/\* turbopackIgnore: true \*\/\s*\w+\)/);
+    }
+  }, 120000);
+});
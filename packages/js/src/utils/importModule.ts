@@ -0,0 +1,7 @@
+/**
+ * Imports an ES module by URL at runtime, e.g. a WordPress script module.
+ * The bundler must leave the import alone, since the URL is only known at runtime.
+ */
+export function importModule<T = Record<string, unknown>>(src: string): Promise<T> {
+  return import(/* webpackIgnore: true */ /* turbopackIgnore: true */ src);
+}
@@ -0,0 +1,23 @@
+import { applyNonce } from './nonce';
+import { setScriptText } from './trustedTypes';
+
+/**
+ * Injects an inline script, replacing the element a previous page injected under the same id.
+ * Replacing rather than updating is what makes the browser run the new code.
+ *
+ * @param id - Element id, e.g. 'wc-settings-before'
+ * @param code - Script source
+ * @param parent - document.head or document.body
+ * @param nonce - CSP nonce
+ */
+export function injectInlineScript(id: string, code: string, parent: HTMLElement, nonce?: string): HTMLScriptElement {
+  document.getElementById(id)?.remove();
+
+  const el = document.createElement('script');
+  el.id = id;
+  applyNonce(el, nonce);
+  setScriptText(el, code);
+  parent.appendChild(el);
+
+  return el;
+}
@@ -0,0 +1,161 @@
+import React from 'react';
+import { render } from '../testing/utils';
+import { mapRoute, RouteMap } from './mapRoute';
+import { Content } from '../Content';
+import { processWcSettings, transformWcSettings } from '../compatibility/woocommerce';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+const routes: RouteMap = [
+  { source: '/product/:slug', destination: '/shop/:slug' },
+  { source: '/docs/:path*', destination: '/help/:path*' },
+  { source: '/:year/:month/:slug', destination: '/blog/:slug' },
+];
+
+function encodeSettings(settings: object): string {
+  return `var wcSettings = JSON.parse( decodeURIComponent( '${encodeURIComponent(JSON.stringify(settings))}' ) );`;
+}
+
+function decodeSettings(script: string) {
+  const [, encoded] = script.match(/decodeURIComponent\( '([^']+)' \)/) as RegExpMatchArray;
+  return JSON.parse(decodeURIComponent(encoded));
+}
+
+describe('mapRoute', () => {
+  it('should map paths matching a pattern', () => {
+    expect(mapRoute('/product/hoodie', routes)).toBe('/shop/hoodie');
+    expect(mapRoute('/2024/05/hello-world', routes)).toBe('/blog/hello-world');
+  });
+
+  it('should keep the trailing slash, query string and hash', () => {
+    expect(mapRoute('/product/hoodie/?color=blue#reviews', routes)).toBe('/shop/hoodie/?color=blue#reviews');
+  });
+
+  it('should match the remaining segments with :name*', () => {
+    expect(mapRoute('/docs/setup/install/', routes)).toBe('/help/setup/install/');
+    expect(mapRoute('/docs/', routes)).toBe('/help/');
+  });
+
+  it('should leave paths without a match unchanged', () => {
+    expect(mapRoute('/about/', routes)).toBe('/about/');
+    expect(mapRoute('/product/hoodie/reviews/all/', routes)).toBe('/product/hoodie/reviews/all/');
+  });
+
+  it('should not map URLs that are not root-relative', () => {
+    expect(mapRoute('https://example.com/product/hoodie', routes)).toBe('https://example.com/product/hoodie');
+    expect(mapRoute('//example.com/product/hoodie', routes)).toBe('//example.com/product/hoodie');
+  });
+
+  it('should use the first matching entry, trying functions in order', () => {
+    const resolver = jest.fn((path: string) => (path.startsWith('/product/sale-') ? '/deals' : null));
+
+    expect(mapRoute('/product/sale-hat/', [resolver, ...routes])).toBe('/deals');
+    expect(mapRoute('/product/hat/', [resolver, ...routes])).toBe('/shop/hat/');
+    expect(resolver).toHaveBeenCalledWith('/product/hat/');
+  });
+
+  describe('Content integration', () => {
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    afterEach(() => {
+      delete process.env.wcr_routes;
+    });
+
+    it('should map WordPress links with the routes prop', () => {
+      const { container } = render(
+        <Content
+          content='<a href="https://wp.example.com/product/hoodie/">Hoodie</a><a href="/product/local/">Local</a>'
+          routes={routes}
+        />
+      );
+
+      const links = container.querySelectorAll('a');
+      expect(links[0]).toHaveAttribute('href', '/shop/hoodie/');
+      // Relative links are not WordPress-generated permalinks
+      expect(links[1]).toHaveAttribute('href', '/product/local/');
+    });
+
+    it('should use the routes configured for the instance', () => {
+      process.env.wcr_routes = JSON.stringify({
+        shop: [{ source: '/product/:slug', destination: '/store/:slug' }],
+        default: [{ source: '/product/:slug', destination: '/shop/:slug' }],
+      });
+
+      const { container } = render(
+        <Content content='<a href="https://wp.example.com/product/hoodie/">Hoodie</a>' instance="shop" />
+      );
+
+      expect(container.querySelector('a')).toHaveAttribute('href', '/store/hoodie/');
+    });
+
+    it('should map page attributes when rewriting attributes', () => {
+      const { container } = render(
+        <Content
+          content='<div data-href="https://wp.example.com/product/hoodie/">Card</div>'
+          routes={routes}
+          rewriteAttributes
+        />
+      );
+
+      expect(container.querySelector('div[data-href]')).toHaveAttribute('data-href', '/shop/hoodie/');
+    });
+  });
+
+  describe('WooCommerce integration', () => {
+    afterEach(() => {
+      delete window.wcSettings;
+    });
+
+    it('should map storePages permalinks in transformWcSettings', () => {
+      const script = encodeSettings({
+        storePages: {
+          shop: { permalink: 'https://wp.example.com/product/' },
+          cart: { permalink: 'https://wp.example.com/cart/' },
+        },
+      });
+
+      const result = transformWcSettings(script, 'https://next.example.com', 'default', {
+        routes: [{ source: '/product', destination: '/shop' }, (path) => (path === '/cart/' ? '/basket/' : null)],
+      });
+
+      expect(decodeSettings(result).storePages).toEqual({
+        shop: { permalink: 'https://next.example.com/shop/' },
+        cart: { permalink: 'https://next.example.com/basket/' },
+      });
+    });
+
+    it('should map proxied page URLs in processWcSettings', () => {
+      window.wcSettings = {
+        storePages: {
+          checkout: { permalink: 'http://__NEXTPRESS_PROXY__/checkout/?step=1' },
+          myaccount: { permalink: 'http://__NEXTPRESS_PROXY__/my-account/' },
+        },
+      };
+
+      processWcSettings('default', [{ source: '/checkout', destination: '/shop/checkout' }]);
+
+      expect(window.wcSettings.storePages).toEqual({
+        checkout: { permalink: `${window.location.origin}/shop/checkout/?step=1` },
+        myaccount: { permalink: `${window.location.origin}/my-account/` },
+      });
+    });
+  });
+});
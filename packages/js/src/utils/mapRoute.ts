@@ -0,0 +1,105 @@
+/**
+ * Maps a WordPress path to a frontend route with a pattern, e.g.
+ * `{ source: '/product/:slug', destination: '/shop/:slug' }`.
+ *
+ * `:name` matches one path segment and `:name*` matches the remaining segments, if any.
+ */
+export type RoutePattern = {
+  source: string;
+  destination: string;
+};
+
+/**
+ * Maps a WordPress path to a frontend route. Returning null or undefined leaves the path to the next entry.
+ */
+export type RouteResolver = (path: string) => string | null | undefined;
+
+/**
+ * Route map entries, tried in order. The first matching entry wins.
+ */
+export type RouteMap = Array<RoutePattern | RouteResolver>;
+
+/**
+ * Gets the parameter names in a route pattern, e.g. ['year', 'slug'] for '/:year/:slug'
+ */
+export function getRouteParams(pattern: string): string[] {
+  return (pattern.match(/:[A-Za-z_]\w*\*?/g) || []).map((param) => param.slice(1).replace(/\*$/, ''));
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/**
+ * Matches a path against a source pattern and returns the matched parameters
+ */
+function matchPattern(source: string, path: string): Record<string, string> | null {
+  const patternSegments = splitPath(source);
+  const pathSegments = splitPath(path);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+
+    if (/^:\w+\*$/.test(segment)) {
+      params[segment.slice(1, -1)] = pathSegments.slice(i).join('/');
+      return params;
+    }
+
+    const value = pathSegments[i];
+    if (value === undefined) {
+      return null;
+    }
+
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = value;
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+
+  return patternSegments.length === pathSegments.length ? params : null;
+}
+
+function applyPattern(route: RoutePattern, path: string): string | null {
+  const params = matchPattern(route.source, path);
+  if (!params) {
+    return null;
+  }
+
+  const mapped = route.destination
+    .replace(/:([A-Za-z_]\w*)\*?/g, (_, name: string) => params[name] ?? '')
+    .replace(/\/{2,}/g, '/');
+
+  // Keep WordPress's trailing slash convention
+  return path.endsWith('/') && !mapped.endsWith('/') ? `${mapped}/` : mapped;
+}
+
+/**
+ * Maps a WordPress path to its frontend route.
+ *
+ * The query string and hash are kept. Paths no entry matches are returned unchanged,
+ * since the frontend route usually equals the WordPress path.
+ *
+ * @param url - Root-relative WordPress path, e.g. '/product/hoodie/?color=blue'
+ * @param routes - Route map entries, tried in order
+ * @returns The frontend route, e.g. '/shop/hoodie/?color=blue'
+ */
+export function mapRoute(url: string, routes: RouteMap): string {
+  if (routes.length === 0 || !url.startsWith('/') || url.startsWith('//')) {
+    return url;
+  }
+
+  const suffixIndex = url.search(/[?#]/);
+  const path = suffixIndex === -1 ? url : url.slice(0, suffixIndex);
+  const suffix = suffixIndex === -1 ? '' : url.slice(suffixIndex);
+
+  for (const route of routes) {
+    const mapped = typeof route === 'function' ? route(path) : applyPattern(route, path);
+    if (mapped !== null && mapped !== undefined) {
+      return `${mapped}${suffix}`;
+    }
+  }
+
+  return url;
+}
@@ -0,0 +1,25 @@
+/**
+ * Gets the CSP nonce of the document from a script Next.js rendered with it.
+ * Browsers hide the nonce attribute after parsing, but keep the nonce property.
+ */
+export function getDocumentNonce(): string | undefined {
+  const script = document.querySelector<HTMLScriptElement>('script[nonce]');
+  return script?.nonce || script?.getAttribute('nonce') || undefined;
+}
+
+/**
+ * Sets the CSP nonce on an element NextPress injects
+ */
+export function applyNonce(el: HTMLElement, nonce?: string) {
+  if (nonce) {
+    el.setAttribute('nonce', nonce);
+  }
+}
+
+/**
+ * Generates a random nonce for a Content-Security-Policy, one per request
+ */
+export function generateNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
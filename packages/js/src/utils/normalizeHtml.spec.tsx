@@ -0,0 +1,171 @@
+import React from 'react';
+import { render } from '../testing/utils';
+import { parseHtml } from './parseHtml';
+import { HtmlFix, normalizeHtml } from './normalizeHtml';
+import { Content } from '../Content';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+const mockGetAllWPInstances = getWPInstanceModule.getAllWPInstances as jest.MockedFunction<
+  typeof getWPInstanceModule.getAllWPInstances
+>;
+
+function normalize(html: string) {
+  const fixes: HtmlFix[] = [];
+  const { container } = render(<div>{parseHtml(normalizeHtml(html, (fix) => fixes.push(fix)))}</div>);
+  return { html: (container.firstChild as HTMLElement).innerHTML, fixes };
+}
+
+describe('normalizeHtml', () => {
+  it('should leave valid HTML unchanged', () => {
+    const html = '<div class="a"><p>Text <a href="/x">link</a></p><ul><li>One</li></ul></div>';
+
+    expect(normalize(html)).toEqual({ html, fixes: [] });
+  });
+
+  describe('tables', () => {
+    it('should wrap rows directly under a table in a tbody', () => {
+      const { html, fixes } = normalize('<table><tr><td>1</td></tr><tr><td>2</td></tr></table>');
+
+      expect(html).toBe('<table><tbody><tr><td>1</td></tr><tr><td>2</td></tr></tbody></table>');
+      expect(fixes).toEqual([{ type: 'table-body', element: 'table' }]);
+    });
+
+    it('should not add a tbody to tables that have one', () => {
+      const { html, fixes } = normalize('<table><thead><tr><th>H</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table>');
+
+      expect(html).toBe('<table><thead><tr><th>H</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table>');
+      expect(fixes).toEqual([]);
+    });
+
+    it('should only wrap stray rows next to existing sections', () => {
+      const { html } = normalize('<table><thead><tr><th>H</th></tr></thead><tr><td>1</td></tr></table>');
+
+      expect(html).toBe('<table><thead><tr><th>H</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table>');
+    });
+
+    it('should handle whitespace around rows', () => {
+      const { html } = normalize('<table>\n  <tr><td>1</td></tr>\n  <tr><td>2</td></tr>\n</table>');
+
+      expect(html).toBe('<table><tbody><tr><td>1</td></tr><tr><td>2</td></tr></tbody></table>');
+    });
+  });
+
+  describe('paragraphs', () => {
+    it('should move block elements nested in inline elements out of paragraphs', () => {
+      const { html, fixes } = normalize('<p id="intro" class="lead">Before <span>x<div>Block</div>y</span> After</p>');
+
+      expect(html).toBe('<p id="intro" class="lead">Before <span>x</span></p><div>Block</div><p class="lead"><span>y</span> After</p>');
+      expect(fixes).toEqual([{ type: 'paragraph-block', element: 'p' }]);
+    });
+
+    it('should move links wrapping block elements out of paragraphs', () => {
+      const { html } = normalize('<p><a href="/full.jpg">\n<figure class="wp-block-image"><img src="/a.jpg"></figure>\n</a></p>');
+
+      expect(html).toBe('<a href="/full.jpg">\n<figure class="wp-block-image"><img src="/a.jpg"></figure>\n</a>');
+    });
+
+    it('should keep paragraphs the parser already closed', () => {
+      const { html, fixes } = normalize('<p>Before<div>Block</div>');
+
+      expect(html).toBe('<p>Before</p><div>Block</div>');
+      expect(fixes).toEqual([]);
+    });
+
+    it('should keep inline elements in paragraphs', () => {
+      const { html, fixes } = normalize('<p><strong>Bold</strong> <span>text</span></p>');
+
+      expect(html).toBe('<p><strong>Bold</strong> <span>text</span></p>');
+      expect(fixes).toEqual([]);
+    });
+  });
+
+  describe('list items', () => {
+    it('should wrap list items without a list in a ul', () => {
+      const { html, fixes } = normalize('<div><li>One</li>\n<li>Two</li></div>');
+
+      expect(html).toBe('<div><ul><li>One</li>\n<li>Two</li></ul></div>');
+      expect(fixes).toEqual([{ type: 'stray-list-item', element: 'li' }]);
+    });
+
+    it('should wrap list items at the top level', () => {
+      const { html } = normalize('<li>One</li><p>Text</p><li>Two</li>');
+
+      expect(html).toBe('<ul><li>One</li></ul><p>Text</p><ul><li>Two</li></ul>');
+    });
+
+    it('should move list items out of paragraphs into a list', () => {
+      const { html } = normalize('<p>Items<li>One</li></p>');
+
+      expect(html).toBe('<p>Items</p><ul><li>One</li></ul>');
+    });
+  });
+
+  describe('links', () => {
+    it('should move a link out of a link', () => {
+      const { html, fixes } = normalize('<a href="/product" class="card">Product<a href="/cart">Add</a></a>');
+
+      expect(html).toBe('<a href="/product" class="card">Product</a><a href="/cart">Add</a>');
+      expect(fixes).toEqual([{ type: 'nested-anchor', element: 'a' }]);
+    });
+
+    it('should unwrap links nested deeper in a link', () => {
+      const { html, fixes } = normalize('<a href="/product"><span>Name <a href="/other">more</a></span></a>');
+
+      expect(html).toBe('<a href="/product"><span>Name more</span></a>');
+      expect(fixes).toEqual([{ type: 'nested-anchor', element: 'a' }]);
+    });
+  });
+
+  describe('Content integration', () => {
+    const originalEnv = process.env.NODE_ENV;
+
+    beforeEach(() => {
+      mockGetWPInstance.mockReturnValue({
+        wpDomain: 'wp.example.com',
+        wpProtocol: 'https',
+        wpHomeUrl: 'https://wp.example.com',
+        wpSiteUrl: 'https://wp.example.com',
+        wpGraphqlUrl: 'https://wp.example.com/graphql',
+      });
+      mockGetAllWPInstances.mockReturnValue({});
+    });
+
+    afterEach(() => {
+      (process.env as Record<string, string | undefined>).NODE_ENV = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    it('should render normalized content', () => {
+      const { container } = render(<Content content="<table><tr><td>Cell</td></tr></table><p><span>Text<div>Block</div></span></p>" />);
+
+      expect(container.querySelector('table > tbody > tr > td')).toHaveTextContent('Cell');
+      expect(container.querySelector('p div')).toBeNull();
+    });
+
+    it('should report fixes in development', () => {
+      (process.env as Record<string, string | undefined>).NODE_ENV = 'development';
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      render(<Content content="<table><tr><td>Cell</td></tr></table>" />);
+
+      expect(warn).toHaveBeenCalledWith(
+        '[Content] Fixed 1 invalid HTML nesting(s) that would cause hydration errors:',
+        'table-body (<table>)'
+      );
+    });
+
+    it('should not report fixes outside development', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      render(<Content content="<table><tr><td>Cell</td></tr></table>" />);
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  DOMNode,
+  Element,
+  htmlToDOM,
+  Text,
+} from 'html-react-parser';
+
+/**
+ * An invalid nesting fixed by normalizeHtml
+ *
+ * - table-body: rows directly under a table were wrapped in a tbody
+ * - paragraph-block: block elements were moved out of a paragraph
+ * - stray-list-item: list items without a list were wrapped in a ul
+ * - nested-anchor: a link inside another link was moved out, or unwrapped when nested deeper
+ */
+export interface HtmlFix {
+  type: 'table-body' | 'paragraph-block' | 'stray-list-item' | 'nested-anchor';
+  /** Tag name of the element that was fixed */
+  element: string;
+}
+
+/**
+ * Elements that close an open paragraph in the HTML parsing algorithm
+ */
+const BLOCK_ELEMENTS = [
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'li', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+];
+
+const LIST_ELEMENTS = ['ul', 'ol', 'menu'];
+
+function isElement(node: DOMNode, name?: string): node is Element {
+  return node instanceof Element && (!name || node.name === name);
+}
+
+function isWhitespace(node: DOMNode): boolean {
+  return node instanceof Text && !node.data.trim();
+}
+
+/**
+ * Sets the parent and sibling links domToReact relies on
+ */
+function link(nodes: DOMNode[], parent: Element | null): DOMNode[] {
+  nodes.forEach((node, index) => {
+    node.parent = parent;
+    node.prev = nodes[index - 1] || null;
+    node.next = nodes[index + 1] || null;
+  });
+  return nodes;
+}
+
+function createElement(name: string, attribs: Record<string, string>, children: DOMNode[]): Element {
+  const element = new Element(name, attribs, []);
+  element.children = link(children, element);
+  return element;
+}
+
+/**
+ * Wraps runs of matching nodes in a new element. Whitespace between matches joins the run.
+ */
+function wrapRuns(nodes: DOMNode[], matches: (node: DOMNode) => boolean, wrapper: string, onWrap: () => void): DOMNode[] {
+  const result: DOMNode[] = [];
+  let run: DOMNode[] = [];
+
+  const flush = () => {
+    // Trailing whitespace stays outside the wrapper
+    const trailing: DOMNode[] = [];
+    while (run.length > 0 && isWhitespace(run[run.length - 1])) {
+      trailing.unshift(run.pop() as DOMNode);
+    }
+    if (run.length > 0) {
+      result.push(createElement(wrapper, {}, run));
+      onWrap();
+    }
+    result.push(...trailing);
+    run = [];
+  };
+
+  for (const node of nodes) {
+    if (matches(node) || (run.length > 0 && isWhitespace(node))) {
+      run.push(node);
+    } else {
+      flush();
+      result.push(node);
+    }
+  }
+  flush();
+
+  return result;
+}
+
+function isBlock(node: DOMNode): boolean {
+  return isElement(node) && BLOCK_ELEMENTS.includes(node.name);
+}
+
+/**
+ * Checks whether a node ends a paragraph. Links may wrap block elements, so a link
+ * containing one is moved out of the paragraph as a whole.
+ */
+function isParagraphBreak(node: DOMNode): boolean {
+  return isBlock(node) || (isElement(node, 'a') && containsMatch(node, isBlock));
+}
+
+function containsMatch(node: DOMNode, matches: (node: DOMNode) => boolean): boolean {
+  return isElement(node) && (node.children as DOMNode[]).some((child) => matches(child) || containsMatch(child, matches));
+}
+
+/**
+ * Splits an element around the children that cannot be nested in it. The lifted children become
+ * siblings, and the remaining content is kept in copies of the element. Only the first copy keeps the id.
+ *
+ * With deep, matches nested in other children are lifted too, splitting those children the same way,
+ * like browsers close a paragraph when a block element opens inside a span.
+ *
+ * @returns The replacement nodes, or null when nothing needs to be lifted
+ */
+function splitAround(element: Element, shouldLift: (child: DOMNode) => boolean, deep = false): DOMNode[] | null {
+  let children = element.children as DOMNode[];
+  if (deep) {
+    children = children.flatMap((child) => (
+      !shouldLift(child) && containsMatch(child, shouldLift)
+        ? splitAround(child as Element, shouldLift, true) as DOMNode[]
+        : [child]
+    ));
+  }
+
+  if (!children.some(shouldLift)) {
+    return null;
+  }
+
+  const result: DOMNode[] = [];
+  let segment: DOMNode[] = [];
+  let keepId = true;
+
+  const flush = () => {
+    if (segment.some((node) => !isWhitespace(node))) {
+      const { id, ...attribs } = element.attribs;
+      result.push(createElement(element.name, keepId && id !== undefined ? { id, ...attribs } : attribs, segment));
+      keepId = false;
+    }
+    segment = [];
+  };
+
+  for (const child of children) {
+    if (shouldLift(child)) {
+      flush();
+      result.push(child);
+    } else {
+      segment.push(child);
+    }
+  }
+  flush();
+
+  return result;
+}
+
+function normalizeNodes(nodes: DOMNode[], parent: Element | null, inAnchor: boolean, onFix: (fix: HtmlFix) => void): DOMNode[] {
+  let result: DOMNode[] = [];
+
+  for (const node of nodes) {
+    if (!isElement(node)) {
+      result.push(node);
+      continue;
+    }
+
+    // A link inside a link's descendants: keep the content, drop the inner link
+    if (inAnchor && node.name === 'a') {
+      onFix({ type: 'nested-anchor', element: 'a' });
+      result.push(...normalizeNodes(node.children as DOMNode[], parent, inAnchor, onFix));
+      continue;
+    }
+
+    const split = node.name === 'p'
+      ? splitAround(node, isParagraphBreak, true)
+      : node.name === 'a'
+        ? splitAround(node, (child) => isElement(child, 'a'))
+        : null;
+
+    if (split) {
+      onFix({ type: node.name === 'p' ? 'paragraph-block' : 'nested-anchor', element: node.name });
+      // The lifted children and copies are normalized as siblings
+      result.push(...normalizeNodes(split, parent, inAnchor, onFix));
+      continue;
+    }
+
+    node.children = link(
+      normalizeNodes(node.children as DOMNode[], node, inAnchor || node.name === 'a', onFix),
+      node
+    );
+    result.push(node);
+  }
+
+  if (parent?.name === 'table') {
+    result = wrapRuns(result, (node) => isElement(node, 'tr'), 'tbody', () => {
+      onFix({ type: 'table-body', element: 'table' });
+    });
+  }
+
+  if (!parent || !LIST_ELEMENTS.includes(parent.name)) {
+    result = wrapRuns(result, (node) => isElement(node, 'li'), 'ul', () => {
+      onFix({ type: 'stray-list-item', element: 'li' });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Parses HTML and fixes the invalid nestings WordPress and WooCommerce commonly output.
+ *
+ * Browsers repair these while parsing server-rendered HTML, so rendering them unchanged
+ * makes React's tree differ from the DOM and causes hydration errors. The fixes follow
+ * what browsers do where possible:
+ *
+ * - Rows directly under a table are wrapped in a tbody
+ * - Block elements inside a paragraph close it, also when nested in inline elements. Remaining
+ *   content goes into a new paragraph.
+ * - List items outside a list are wrapped in a ul
+ * - A link directly inside a link closes it. Links nested deeper are unwrapped.
+ *
+ * @param html - HTML to parse
+ * @param onFix - Called for each fix
+ * @param context - Tag name of the element the HTML is inserted into, e.g. 'ul' for the list items of a list block
+ * @returns The normalized DOM nodes, ready for parseHtml
+ */
+export function normalizeHtml(html: string, onFix: (fix: HtmlFix) => void = () => {}, context?: string): DOMNode[] {
+  const nodes = htmlToDOM(html) as DOMNode[];
+  const parent = context ? createElement(context, {}, []) : null;
+  return link(normalizeNodes(nodes, parent, false, onFix), null);
+}
@@ -12,15 +12,28 @@ import parse, {
  */
 export type ElementProps = ReturnType<typeof attributesToProps>;
 
+/**
+ * Renders DOM nodes with the same parsers as the surrounding content
+ */
+export type RenderChildren = (nodes: DOMNode[]|DOMNode) => ReturnType<typeof domToReact>;
+
 /**
  * Type for custom parser functions
  */
-export type CustomParser = (node: DOMNode, props: ElementProps, children?: DOMNode[]|DOMNode) => JSX.Element | undefined;
+export type CustomParser = (node: DOMNode, props: ElementProps, children?: DOMNode[]|DOMNode, renderChildren?: RenderChildren) => JSX.Element | undefined;
 
+/**
+ * Renders HTML, or DOM nodes from normalizeHtml, applying the custom parsers in order
+ */
 export function parseHtml(
-  html: string,
+  html: string | DOMNode[],
   ...parsers: (CustomParser|undefined)[]
 ) {
+  const renderChildren: RenderChildren = (nodes) => domToReact(
+    (Array.isArray(nodes) ? nodes : [nodes]) as Element[],
+    options
+  );
+
   const options: HTMLReactParserOptions = {
     replace(node) {
       const { name, attribs, children } = node as Element;
@@ -36,7 +49,7 @@ export function parseHtml(
         if (!parser) {
           continue;
         }
-        const result = parser(node, props, children as Element[]);
+        const result = parser(node, props, children as Element[], renderChildren);
         if (result) {
           return result;
         }
@@ -50,7 +63,7 @@ export function parseHtml(
         );
       }
 
-      const voidElements = ['br', 'hr', 'input', 'img', 'link', 'meta'];
+      const voidElements = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
       if (voidElements.includes(name)) {
         return (<Component {...props} />);
       }
@@ -64,5 +77,9 @@ export function parseHtml(
     },
   };
 
+  if (typeof html !== 'string') {
+    return domToReact(html as Element[], options);
+  }
+
   return parse(html, options as HTMLReactParserOptions);
 }
\ No newline at end of file
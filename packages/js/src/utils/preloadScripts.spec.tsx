@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { render, act } from '../testing/utils';
+import { preloadScripts } from './preloadScripts';
+import { HeadScripts } from '../HeadScripts';
+import { BodyScripts } from '../BodyScripts';
+import { sortScriptsByDependencies } from './sortScriptsByDependencies';
+import { getScriptSrc, ResolvedEnqueuedScript } from './resolveAssetUrl';
+import { ScriptLoadingGroupEnum } from '../types';
+import { mockAssetsByUriQueryResult } from '../testing/mock';
+
+const getPreloads = () => Array.from(document.head.querySelectorAll('link[rel="preload"]'))
+  .map((link) => link.getAttribute('href'));
+
+describe('preloadScripts', () => {
+  afterEach(() => {
+    document.head.querySelectorAll('link, script').forEach((el) => el.remove());
+  });
+
+  it('should add a script preload link per URL', () => {
+    preloadScripts(['/atx/default/wp-assets/a.js', '', '/atx/default/wp-assets/b.js']);
+
+    const links = document.head.querySelectorAll('link[rel="preload"]');
+    expect(getPreloads()).toEqual(['/atx/default/wp-assets/a.js', '/atx/default/wp-assets/b.js']);
+    expect(links[0]).toHaveAttribute('as', 'script');
+  });
+
+  it('should preload each URL once', () => {
+    preloadScripts(['/atx/default/wp-assets/c.js']);
+    preloadScripts(['/atx/default/wp-assets/c.js', '/atx/default/wp-assets/d.js']);
+
+    expect(getPreloads()).toEqual(['/atx/default/wp-assets/c.js', '/atx/default/wp-assets/d.js']);
+  });
+});
+
+/**
+ * Simulated network: every request takes LATENCY ms. A script element whose URL was
+ * preloaded resolves when the preload finishes, otherwise it starts its own request.
+ * Inline scripts are recorded instead of executed, since the fixture's external scripts
+ * never run in jsdom.
+ */
+const LATENCY = 100;
+
+describe('script loading benchmark', () => {
+  const scripts = mockAssetsByUriQueryResult.data.assetsByUri.enqueuedScripts.nodes as unknown as ResolvedEnqueuedScript[];
+  const headerScripts = sortScriptsByDependencies(scripts.filter((script) => script.location === ScriptLoadingGroupEnum.HEADER));
+  const footerScripts = sortScriptsByDependencies(scripts.filter((script) => script.location === ScriptLoadingGroupEnum.FOOTER));
+
+  let requests: Map<string, number>;
+  let executed: string[];
+  let requestCount: number;
+
+  function simulateNetwork(parent: HTMLElement) {
+    const appendChild = parent.appendChild.bind(parent);
+
+    return jest.spyOn(parent, 'appendChild').mockImplementation(<T extends Node>(node: T): T => {
+      const el = node as unknown as HTMLElement;
+
+      if (el.tagName === 'LINK' && el.getAttribute('rel') === 'preload') {
+        requestCount++;
+        requests.set(el.getAttribute('href') as string, Date.now() + LATENCY);
+        return appendChild(node);
+      }
+
+      if (el.tagName !== 'SCRIPT') {
+        return appendChild(node);
+      }
+
+      const src = el.getAttribute('src');
+      if (!src) {
+        executed.push(el.id);
+        return node;
+      }
+
+      if (!requests.has(src)) {
+        requestCount++;
+        requests.set(src, Date.now() + LATENCY);
+      }
+      setTimeout(() => {
+        executed.push(el.id);
+        el.dispatchEvent(new Event('load'));
+      }, Math.max(0, (requests.get(src) as number) - Date.now()));
+
+      return node;
+    });
+  }
+
+  function Loaders({ onDone }: { onDone: () => void }) {
+    const [headLoaded, setHeadLoaded] = useState(false);
+
+    return (
+      <>
+        <HeadScripts scripts={scripts} onComplete={() => setHeadLoaded(true)} />
+        <BodyScripts scripts={scripts} waitFor={headLoaded} onComplete={onDone} />
+      </>
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    requests = new Map();
+    executed = [];
+    requestCount = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should fetch in parallel and execute in dependency order', () => {
+    simulateNetwork(document.head);
+    simulateNetwork(document.body);
+
+    const start = Date.now();
+    let finishedAt = 0;
+    render(<Loaders onDone={() => { finishedAt = Date.now(); }} />);
+
+    for (let i = 0; i < 10 && !finishedAt; i++) {
+      act(() => {
+        jest.runAllTimers();
+      });
+    }
+
+    const external = [...headerScripts, ...footerScripts].filter((script) => getScriptSrc(script, 'default'));
+    const sequentialTime = external.length * LATENCY;
+    const elapsed = finishedAt - start;
+
+    expect(finishedAt).toBeGreaterThan(0);
+    // One request per script, all started before the first one finished
+    expect(requestCount).toBe(external.length);
+    expect(elapsed).toBeLessThanOrEqual(2 * LATENCY);
+    expect(elapsed).toBeLessThan(sequentialTime / 10);
+
+    // Main scripts run in sortScriptsByDependencies order, header scripts first
+    expect(executed.filter((id) => external.some((script) => script.handle === id)))
+      .toEqual(external.map((script) => script.handle));
+
+    // Inline code keeps its place around the main script
+    external.forEach(({ handle, before, extraData, after }) => {
+      const index = executed.indexOf(handle as string);
+      if (extraData) {
+        expect(executed.indexOf(`${handle}-extra`)).toBeLessThan(index);
+      }
+      if (before) {
+        expect(executed.indexOf(`${handle}-before`)).toBeLessThan(index);
+      }
+      if (after) {
+        expect(executed[index + 1]).toBe(`${handle}-after`);
+      }
+    });
+  });
+});
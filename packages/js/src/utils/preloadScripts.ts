@@ -0,0 +1,30 @@
+import { applyNonce } from './nonce';
+
+// Global cache of preloaded URLs, shared by HeadScripts and BodyScripts
+const PreloadCache = new Set<string>();
+
+/**
+ * Starts downloading scripts in parallel with `<link rel="preload" as="script">`.
+ *
+ * The loaders still insert and execute scripts one at a time, in dependency order and with
+ * their inline before/after code in between, but each insert is served from the preload
+ * instead of waiting for a new request.
+ *
+ * @param srcs - Script URLs, exactly as they will be set on the script elements
+ * @param nonce - CSP nonce, needed for preloads under a nonce-based script-src
+ */
+export function preloadScripts(srcs: string[], nonce?: string) {
+  srcs.forEach((src) => {
+    if (!src || PreloadCache.has(src)) {
+      return;
+    }
+    PreloadCache.add(src);
+
+    const link = document.createElement('link');
+    link.rel = 'preload';
+    link.setAttribute('as', 'script');
+    link.href = src;
+    applyNonce(link, nonce);
+    document.head.appendChild(link);
+  });
+}
@@ -0,0 +1,245 @@
+import { resolveAssetUrl, getScriptSrc } from './resolveAssetUrl';
+
+describe('resolveAssetUrl', () => {
+  describe('standard install', () => {
+    const options = {
+      instance: 'main',
+      wpHomeUrl: 'https://wp.example.com',
+      wpSiteUrl: 'https://wp.example.com',
+    };
+
+    it('should proxy wp-includes assets as internal assets', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-includes/js/jquery/jquery.min.js', options))
+        .toBe('/atx/main/wp-internal-assets/wp-includes/js/jquery/jquery.min.js');
+    });
+
+    it('should proxy wp-admin assets as internal assets', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-admin/css/forms.min.css', options))
+        .toBe('/atx/main/wp-internal-assets/wp-admin/css/forms.min.css');
+    });
+
+    it('should proxy wp-content assets', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/plugins/woocommerce/assets/js/cart.js', options))
+        .toBe('/atx/main/wp-assets/wp-content/plugins/woocommerce/assets/js/cart.js');
+    });
+
+    it('should resolve relative paths against the WordPress origin', () => {
+      expect(resolveAssetUrl('/wp-includes/js/dist/hooks.min.js', options))
+        .toBe('/atx/main/wp-internal-assets/wp-includes/js/dist/hooks.min.js');
+      expect(resolveAssetUrl('/wp-content/themes/theme/style.css', options))
+        .toBe('/atx/main/wp-assets/wp-content/themes/theme/style.css');
+    });
+
+    it('should return already proxied paths unchanged', () => {
+      expect(resolveAssetUrl('/atx/main/wp-assets/wp-content/uploads/a.jpg', options))
+        .toBe('/atx/main/wp-assets/wp-content/uploads/a.jpg');
+      expect(resolveAssetUrl('/atx/main/wp-internal-assets/wp-includes/js/a.js', options))
+        .toBe('/atx/main/wp-internal-assets/wp-includes/js/a.js');
+    });
+
+    it('should not treat wp-includes outside the path root as internal', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/plugins/x/wp-includes/a.js', options))
+        .toBe('/atx/main/wp-assets/wp-content/plugins/x/wp-includes/a.js');
+    });
+  });
+
+  describe('external assets', () => {
+    const options = {
+      instance: 'main',
+      wpHomeUrl: 'https://wp.example.com',
+      wpSiteUrl: 'https://wp.example.com',
+    };
+
+    it('should return assets on other origins unchanged', () => {
+      expect(resolveAssetUrl('https://js.stripe.com/v3/', options)).toBe('https://js.stripe.com/v3/');
+      expect(resolveAssetUrl('https://fonts.googleapis.com/css2?family=Inter&display=swap', options))
+        .toBe('https://fonts.googleapis.com/css2?family=Inter&display=swap');
+    });
+
+    it('should treat protocol-relative URLs on other hosts as external', () => {
+      expect(resolveAssetUrl('//cdn.example.net/lib.js', options)).toBe('//cdn.example.net/lib.js');
+    });
+
+    it('should treat a different protocol as a different origin', () => {
+      expect(resolveAssetUrl('http://wp.example.com/wp-content/a.js', options))
+        .toBe('http://wp.example.com/wp-content/a.js');
+    });
+
+    it('should append the version to external assets', () => {
+      expect(resolveAssetUrl('https://cdn.example.net/lib.js', { ...options, version: '2.1' }))
+        .toBe('https://cdn.example.net/lib.js?ver=2.1');
+    });
+  });
+
+  describe('subdirectory install', () => {
+    // Bedrock: home at the root, core under /wp, content under /app
+    const options = {
+      instance: 'shop',
+      wpHomeUrl: 'https://shop.example.com',
+      wpSiteUrl: 'https://shop.example.com/wp',
+    };
+
+    it('should strip the site path from core assets', () => {
+      expect(resolveAssetUrl('https://shop.example.com/wp/wp-includes/js/dist/hooks.min.js', options))
+        .toBe('/atx/shop/wp-internal-assets/wp-includes/js/dist/hooks.min.js');
+      expect(resolveAssetUrl('https://shop.example.com/wp/wp-admin/css/forms.css', options))
+        .toBe('/atx/shop/wp-internal-assets/wp-admin/css/forms.css');
+    });
+
+    it('should resolve relative subdirectory paths', () => {
+      expect(resolveAssetUrl('/wp/wp-includes/css/dist/block-library/style.min.css', options))
+        .toBe('/atx/shop/wp-internal-assets/wp-includes/css/dist/block-library/style.min.css');
+    });
+
+    it('should proxy a custom WP_CONTENT_URL under the home URL', () => {
+      expect(resolveAssetUrl('https://shop.example.com/app/plugins/woocommerce/assets/js/cart.js', options))
+        .toBe('/atx/shop/wp-assets/app/plugins/woocommerce/assets/js/cart.js');
+      expect(resolveAssetUrl('https://shop.example.com/app/uploads/2024/01/image.jpg', options))
+        .toBe('/atx/shop/wp-assets/app/uploads/2024/01/image.jpg');
+    });
+
+    it('should not match a path that only shares the site path prefix', () => {
+      expect(resolveAssetUrl('https://shop.example.com/wp-content/themes/theme/style.css', options))
+        .toBe('/atx/shop/wp-assets/wp-content/themes/theme/style.css');
+    });
+
+    it('should accept a trailing slash on the site URL', () => {
+      expect(resolveAssetUrl('https://shop.example.com/wp/wp-includes/js/a.js', { ...options, wpSiteUrl: 'https://shop.example.com/wp/' }))
+        .toBe('/atx/shop/wp-internal-assets/wp-includes/js/a.js');
+    });
+  });
+
+  describe('home URL in a subdirectory', () => {
+    const options = {
+      instance: 'blog',
+      wpHomeUrl: 'https://example.com/blog',
+      wpSiteUrl: 'https://example.com/blog',
+    };
+
+    it('should strip the home path from content assets', () => {
+      expect(resolveAssetUrl('https://example.com/blog/wp-content/themes/theme/style.css', options))
+        .toBe('/atx/blog/wp-assets/wp-content/themes/theme/style.css');
+    });
+
+    it('should strip the site path from core assets', () => {
+      expect(resolveAssetUrl('https://example.com/blog/wp-includes/js/a.js', options))
+        .toBe('/atx/blog/wp-internal-assets/wp-includes/js/a.js');
+    });
+
+    it('should load assets outside the home path directly', () => {
+      expect(resolveAssetUrl('https://example.com/static/app.js', options)).toBe('https://example.com/static/app.js');
+    });
+  });
+
+  describe('site URL on a separate host', () => {
+    const options = {
+      instance: 'main',
+      wpHomeUrl: 'https://www.example.com',
+      wpSiteUrl: 'https://cms.example.com',
+    };
+
+    it('should proxy core assets from the site host', () => {
+      expect(resolveAssetUrl('https://cms.example.com/wp-includes/js/a.js', options))
+        .toBe('/atx/main/wp-internal-assets/wp-includes/js/a.js');
+    });
+
+    it('should proxy non-core assets from the site host through the site URL', () => {
+      expect(resolveAssetUrl('https://cms.example.com/wp-content/plugins/x/a.js', options))
+        .toBe('/atx/main/wp-internal-assets/wp-content/plugins/x/a.js');
+    });
+
+    it('should proxy content assets from the home host', () => {
+      expect(resolveAssetUrl('https://www.example.com/wp-content/plugins/x/a.js', options))
+        .toBe('/atx/main/wp-assets/wp-content/plugins/x/a.js');
+    });
+  });
+
+  describe('without instance URLs', () => {
+    const options = { instance: 'main' };
+
+    it('should route by path', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-includes/js/a.js', options))
+        .toBe('/atx/main/wp-internal-assets/wp-includes/js/a.js');
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/a.js', options))
+        .toBe('/atx/main/wp-assets/wp-content/a.js');
+      expect(resolveAssetUrl('/wp-admin/css/forms.css', options))
+        .toBe('/atx/main/wp-internal-assets/wp-admin/css/forms.css');
+    });
+
+    it('should proxy assets on any origin', () => {
+      expect(resolveAssetUrl('https://js.stripe.com/v3/', options)).toBe('/atx/main/wp-assets/v3/');
+    });
+
+    it('should use wpSiteUrl alone', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp/wp-includes/js/a.js', { ...options, wpSiteUrl: 'https://wp.example.com/wp' }))
+        .toBe('/atx/main/wp-internal-assets/wp-includes/js/a.js');
+    });
+  });
+
+  describe('query strings and versions', () => {
+    const options = {
+      instance: 'main',
+      wpHomeUrl: 'https://wp.example.com',
+      wpSiteUrl: 'https://wp.example.com',
+    };
+
+    it('should append the version as ver', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-includes/js/a.js', { ...options, version: '6.4.2' }))
+        .toBe('/atx/main/wp-internal-assets/wp-includes/js/a.js?ver=6.4.2');
+    });
+
+    it('should keep existing query parameters', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/a.js?lang=en', { ...options, version: '1.0' }))
+        .toBe('/atx/main/wp-assets/wp-content/a.js?lang=en&ver=1.0');
+    });
+
+    it('should not override an existing ver parameter', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/a.js?ver=2.0', { ...options, version: '1.0' }))
+        .toBe('/atx/main/wp-assets/wp-content/a.js?ver=2.0');
+    });
+
+    it('should encode the version', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/a.js', { ...options, version: '1.0 beta&1' }))
+        .toBe('/atx/main/wp-assets/wp-content/a.js?ver=1.0%20beta%261');
+    });
+
+    it('should skip empty and null versions', () => {
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/a.js', { ...options, version: '' }))
+        .toBe('/atx/main/wp-assets/wp-content/a.js');
+      expect(resolveAssetUrl('https://wp.example.com/wp-content/a.js', { ...options, version: null }))
+        .toBe('/atx/main/wp-assets/wp-content/a.js');
+    });
+
+    it('should keep the query when routing by path', () => {
+      expect(resolveAssetUrl('/wp-content/a.js?lang=en', { instance: 'main', version: '1.0' }))
+        .toBe('/atx/main/wp-assets/wp-content/a.js?lang=en&ver=1.0');
+    });
+
+    it('should insert the version before a hash on external assets', () => {
+      expect(resolveAssetUrl('https://cdn.example.net/lib.js#main', { ...options, version: '3' }))
+        .toBe('https://cdn.example.net/lib.js?ver=3#main');
+    });
+  });
+
+  describe('getScriptSrc', () => {
+    it('should prefer the server-resolved URL', () => {
+      expect(getScriptSrc({ id: 'stripe', src: 'https://js.stripe.com/v3/', resolvedSrc: 'https://js.stripe.com/v3/' }, 'shop'))
+        .toBe('https://js.stripe.com/v3/');
+      expect(getScriptSrc({ id: 'inline', src: null, resolvedSrc: null }, 'shop')).toBe('');
+    });
+
+    it('should proxy unresolved scripts with their version', () => {
+      expect(getScriptSrc({ id: 'hooks', src: 'https://shop.example.com/wp-includes/js/dist/hooks.min.js', version: '6.4.2' }, 'shop'))
+        .toBe('/atx/shop/wp-internal-assets/wp-includes/js/dist/hooks.min.js?ver=6.4.2');
+      expect(getScriptSrc({ id: 'inline' }, 'shop')).toBe('');
+    });
+
+    it('should load unresolved scripts outside WordPress asset paths from their own origin', () => {
+      expect(getScriptSrc({ id: 'jquery-cdn', src: 'https://cdn.jsdelivr.net/npm/jquery@3.7.1/dist/jquery.min.js', version: '3.7.1' }, 'shop'))
+        .toBe('https://cdn.jsdelivr.net/npm/jquery@3.7.1/dist/jquery.min.js?ver=3.7.1');
+      expect(getScriptSrc({ id: 'stripe', src: 'https://js.stripe.com/v3/' }, 'shop')).toBe('https://js.stripe.com/v3/');
+      expect(getScriptSrc({ id: 'plugin', src: '/wp-content/plugins/shop/app.js' }, 'shop'))
+        .toBe('/atx/shop/wp-assets/wp-content/plugins/shop/app.js');
+    });
+  });
+});
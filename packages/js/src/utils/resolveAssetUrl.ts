@@ -0,0 +1,166 @@
+import { EnqueuedScript, Maybe } from '../types';
+
+/**
+ * An EnqueuedScript whose final URL was resolved on the server by resolveEnqueuedScripts
+ */
+export type ResolvedEnqueuedScript = EnqueuedScript & {
+  /**
+   * Final URL to load: the original src for external scripts, or an /atx/:slug proxy path
+   * for WordPress assets. null for inline-only scripts.
+   */
+  resolvedSrc?: Maybe<string>;
+};
+
+export interface ResolveAssetUrlOptions {
+  /** WordPress instance slug used in the /atx/:slug proxy routes */
+  instance: string;
+  /** Instance home URL. Enables external asset detection and custom content directories. */
+  wpHomeUrl?: string;
+  /** Instance site URL. Enables subdirectory installs, e.g. core under /wp/wp-includes. Defaults to wpHomeUrl. */
+  wpSiteUrl?: string;
+  /** Asset version, appended as the `ver` query parameter like WordPress does */
+  version?: Maybe<string>;
+}
+
+/**
+ * WordPress core asset paths, relative to the site URL
+ */
+const INTERNAL_ROUTE = /^\/wp-(?:includes|admin)\//;
+
+/**
+ * WordPress asset directories, anywhere in a path to allow for subdirectory installs
+ */
+const WORDPRESS_ASSET_PATH = /\/wp-(?:content|includes|admin)\//;
+
+/**
+ * Placeholder origin for parsing asset paths when no instance URL is known
+ */
+const PLACEHOLDER_ORIGIN = 'http://nextpress.invalid';
+
+function parseUrl(url: string, base?: string): URL | null {
+  try {
+    return new URL(url, base);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the path of a URL relative to a base URL, e.g. '/wp-includes/js/hooks.js' for
+ * 'https://example.com/wp/wp-includes/js/hooks.js' and 'https://example.com/wp'.
+ *
+ * @returns The relative path, or null when the URL is on another origin or outside the base path
+ */
+function getRelativePath(url: URL, base: URL | null): string | null {
+  if (!base || url.origin !== base.origin) {
+    return null;
+  }
+
+  const basePath = base.pathname.replace(/\/+$/, '');
+  if (!url.pathname.startsWith(`${basePath}/`)) {
+    return null;
+  }
+
+  return url.pathname.slice(basePath.length);
+}
+
+/**
+ * Appends `ver` to a URL unless the URL already carries one
+ */
+function appendVersion(url: string, version?: Maybe<string>): string {
+  if (!version) {
+    return url;
+  }
+
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const queryIndex = base.indexOf('?');
+
+  if (queryIndex !== -1 && new URLSearchParams(base.slice(queryIndex + 1)).has('ver')) {
+    return url;
+  }
+
+  return `${base}${queryIndex === -1 ? '?' : '&'}ver=${encodeURIComponent(version)}${hash}`;
+}
+
+/**
+ * Resolves the URL to load a WordPress script or stylesheet from.
+ *
+ * - Core assets under the site URL (wp-includes, wp-admin) map to /atx/:slug/wp-internal-assets
+ * - Other assets under the home URL (wp-content, custom WP_CONTENT_URL) map to /atx/:slug/wp-assets
+ * - Assets on other origins, or outside the home and site paths, are returned as-is
+ *
+ * Without wpHomeUrl and wpSiteUrl every asset is proxied, using its path to pick the route.
+ * Paths that already point at the instance's proxy routes are returned as-is.
+ * Query strings are kept, and `version` is added as `ver` for cache busting.
+ *
+ * @param src - Asset URL or path, e.g. EnqueuedScript.src
+ * @param options - Instance slug, instance URLs and asset version
+ */
+export function resolveAssetUrl(src: string, options: ResolveAssetUrlOptions): string {
+  const { instance, wpHomeUrl, wpSiteUrl, version } = options;
+
+  // Already resolved, e.g. by an earlier rewriting pass
+  if (src.startsWith(`/atx/${instance}/wp-assets/`) || src.startsWith(`/atx/${instance}/wp-internal-assets/`)) {
+    return appendVersion(src, version);
+  }
+
+  const homeUrl = wpHomeUrl ? parseUrl(wpHomeUrl) : null;
+  const siteUrl = wpSiteUrl ? parseUrl(wpSiteUrl) : homeUrl;
+
+  // Relative paths are relative to the WordPress origin
+  const url = parseUrl(src, (homeUrl || siteUrl)?.href || PLACEHOLDER_ORIGIN);
+  if (!url) {
+    return appendVersion(src, version);
+  }
+
+  if (!homeUrl && !siteUrl) {
+    const route = INTERNAL_ROUTE.test(url.pathname) ? 'wp-internal-assets' : 'wp-assets';
+    return appendVersion(`/atx/${instance}/${route}${url.pathname}${url.search}`, version);
+  }
+
+  const sitePath = getRelativePath(url, siteUrl);
+  if (sitePath !== null && INTERNAL_ROUTE.test(sitePath)) {
+    return appendVersion(`/atx/${instance}/wp-internal-assets${sitePath}${url.search}`, version);
+  }
+
+  const homePath = getRelativePath(url, homeUrl);
+  if (homePath !== null) {
+    return appendVersion(`/atx/${instance}/wp-assets${homePath}${url.search}`, version);
+  }
+
+  if (sitePath !== null) {
+    return appendVersion(`/atx/${instance}/wp-internal-assets${sitePath}${url.search}`, version);
+  }
+
+  // External asset, or a path the proxy routes cannot reach
+  return appendVersion(src, version);
+}
+
+/**
+ * Gets the URL a loader should inject for a script.
+ * Uses the server-resolved URL when present, otherwise proxies the src.
+ *
+ * The client does not know the instance URLs, so unresolved absolute URLs are only proxied
+ * when their path points into a WordPress asset directory. Other absolute URLs, e.g. CDN
+ * scripts, are loaded from their own origin.
+ *
+ * @returns The script URL, or an empty string for inline-only scripts
+ */
+export function getScriptSrc(script: ResolvedEnqueuedScript, instance: string): string {
+  if (script.resolvedSrc !== undefined) {
+    return script.resolvedSrc || '';
+  }
+
+  if (!script.src) {
+    return '';
+  }
+
+  const url = parseUrl(script.src);
+  if (url && /^https?:$/.test(url.protocol) && !WORDPRESS_ASSET_PATH.test(url.pathname)) {
+    return appendVersion(script.src, script.version);
+  }
+
+  return resolveAssetUrl(script.src, { instance, version: script.version });
+}
@@ -0,0 +1,75 @@
+import { resolveEnqueuedScripts } from './resolveEnqueuedScripts';
+import * as getWPInstanceModule from '../config/getWPInstance';
+import { EnqueuedScript } from '../types';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+
+const wpInstance = {
+  wpDomain: 'shop.example.com',
+  wpProtocol: 'https',
+  wpHomeUrl: 'https://shop.example.com',
+  wpSiteUrl: 'https://cms.shop.example.com/wp',
+  wpGraphqlUrl: 'https://shop.example.com/graphql',
+};
+
+const createScript = (overrides: Partial<EnqueuedScript>): EnqueuedScript => ({
+  id: overrides.handle || 'script',
+  ...overrides,
+});
+
+describe('resolveEnqueuedScripts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetWPInstance.mockReturnValue(wpInstance);
+  });
+
+  it('should proxy WordPress assets and keep external scripts', () => {
+    const scripts = [
+      createScript({ handle: 'jquery-core', src: 'https://cms.shop.example.com/wp/wp-includes/js/jquery/jquery.min.js' }),
+      createScript({ handle: 'wc-cart', src: 'https://shop.example.com/wp-content/plugins/woocommerce/cart.js' }),
+      createScript({ handle: 'stripe', src: 'https://js.stripe.com/v3/' }),
+    ];
+
+    const resolved = resolveEnqueuedScripts(scripts, 'shop');
+
+    expect(mockGetWPInstance).toHaveBeenCalledWith('shop');
+    expect(resolved.map(script => script.resolvedSrc)).toEqual([
+      '/atx/shop/wp-internal-assets/wp-includes/js/jquery/jquery.min.js',
+      '/atx/shop/wp-assets/wp-content/plugins/woocommerce/cart.js',
+      'https://js.stripe.com/v3/',
+    ]);
+  });
+
+  it('should resolve core assets under the site URL and append versions', () => {
+    const resolved = resolveEnqueuedScripts([
+      createScript({ handle: 'wp-hooks', src: 'https://cms.shop.example.com/wp/wp-includes/js/dist/hooks.min.js', version: '6.4.2' }),
+    ], 'shop');
+
+    expect(resolved[0].resolvedSrc).toBe('/atx/shop/wp-internal-assets/wp-includes/js/dist/hooks.min.js?ver=6.4.2');
+  });
+
+  it('should resolve inline-only scripts to null', () => {
+    const resolved = resolveEnqueuedScripts([createScript({ handle: 'wc-settings', src: null })], 'shop');
+
+    expect(resolved[0].resolvedSrc).toBeNull();
+  });
+
+  it('should preserve the original script fields', () => {
+    const script = createScript({ handle: 'wc-cart', src: '/wp-content/plugins/woocommerce/cart.js', before: ['var a = 1;'] });
+
+    const [resolved] = resolveEnqueuedScripts([script], 'shop');
+
+    expect(resolved).toEqual({ ...script, resolvedSrc: '/atx/shop/wp-assets/wp-content/plugins/woocommerce/cart.js' });
+  });
+
+  it('should use the default instance when none is provided', () => {
+    resolveEnqueuedScripts([]);
+
+    expect(mockGetWPInstance).toHaveBeenCalledWith('default');
+  });
+});
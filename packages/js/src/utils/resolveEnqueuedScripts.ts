@@ -0,0 +1,29 @@
+import { EnqueuedScript } from '../types';
+import { getWPInstance } from '../config/getWPInstance';
+import { getDefaultInstanceSlug } from '../config/getDefaultInstanceSlug';
+import { resolveAssetUrl, ResolvedEnqueuedScript } from './resolveAssetUrl';
+
+/**
+ * Resolves each script to the URL HeadScripts and BodyScripts should load.
+ * External scripts keep their src, WordPress assets are mapped to /atx/:slug proxy paths.
+ * See resolveAssetUrl for the mapping rules.
+ *
+ * Server-side only - call during RSC rendering and pass the result to the loaders,
+ * so classifying scripts does not require a request from the browser.
+ *
+ * @param scripts - Scripts from assetsByUri
+ * @param instance - WordPress instance slug. Defaults to the configured default instance.
+ */
+export function resolveEnqueuedScripts(
+  scripts: EnqueuedScript[],
+  instance: string = getDefaultInstanceSlug()
+): ResolvedEnqueuedScript[] {
+  const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
+
+  return scripts.map((script) => ({
+    ...script,
+    resolvedSrc: script.src
+      ? resolveAssetUrl(script.src, { instance, wpHomeUrl, wpSiteUrl, version: script.version })
+      : null,
+  }));
+}
@@ -0,0 +1,90 @@
+import { resolveScriptModules, resolveImportMap, resolveInteractivity } from './resolveScriptModules';
+import { rewriteImportMap } from './importMap';
+import * as getWPInstanceModule from '../config/getWPInstance';
+
+// Mock getWPInstance
+jest.mock('../config/getWPInstance');
+
+const mockGetWPInstance = getWPInstanceModule.getWPInstance as jest.MockedFunction<
+  typeof getWPInstanceModule.getWPInstance
+>;
+
+describe('resolveScriptModules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetWPInstance.mockReturnValue({
+      wpDomain: 'shop.example.com',
+      wpProtocol: 'https',
+      wpHomeUrl: 'https://shop.example.com',
+      wpSiteUrl: 'https://shop.example.com/wp',
+      wpGraphqlUrl: 'https://shop.example.com/graphql',
+    });
+  });
+
+  it('should proxy WordPress modules and keep external modules', () => {
+    const modules = resolveScriptModules([
+      { id: '@wordpress/interactivity', src: 'https://shop.example.com/wp/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7' },
+      { id: 'tabs/view', src: 'https://shop.example.com/wp-content/plugins/tabs/view.js?ver=1.0' },
+      { id: 'cdn/widget', src: 'https://cdn.example.org/widget.js' },
+      { id: 'empty' },
+    ], 'shop');
+
+    expect(mockGetWPInstance).toHaveBeenCalledWith('shop');
+    expect(modules.map(({ resolvedSrc }) => resolvedSrc)).toEqual([
+      '/atx/shop/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7',
+      '/atx/shop/wp-assets/wp-content/plugins/tabs/view.js?ver=1.0',
+      'https://cdn.example.org/widget.js',
+      null,
+    ]);
+  });
+
+  it('should rewrite import map URLs with the instance URLs', () => {
+    const importMap = resolveImportMap({
+      imports: {
+        '@wordpress/interactivity': 'https://shop.example.com/wp/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7',
+        'cdn/widget': 'https://cdn.example.org/widget.js',
+      },
+    }, 'shop');
+
+    expect(importMap).toEqual({
+      imports: {
+        '@wordpress/interactivity': '/atx/shop/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7',
+        'cdn/widget': 'https://cdn.example.org/widget.js',
+      },
+    });
+  });
+
+  it('should keep already rewritten URLs and rewrite scopes', () => {
+    const importMap = rewriteImportMap({
+      imports: { '@wordpress/interactivity': '/atx/shop/wp-internal-assets/wp-includes/js/dist/interactivity.min.js' },
+      scopes: {
+        '/wp-content/plugins/tabs/': { lodash: '/wp-content/plugins/tabs/lodash.js' },
+      },
+    }, { instance: 'shop' });
+
+    expect(importMap).toEqual({
+      imports: { '@wordpress/interactivity': '/atx/shop/wp-internal-assets/wp-includes/js/dist/interactivity.min.js' },
+      scopes: {
+        '/atx/shop/wp-assets/wp-content/plugins/tabs/': { lodash: '/atx/shop/wp-assets/wp-content/plugins/tabs/lodash.js' },
+      },
+    });
+  });
+
+  it('should resolve the Interactivity API runtime to the import map URL', () => {
+    const runtimeSrc = 'https://shop.example.com/wp/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7';
+    const interactivity = resolveInteractivity({ state: {}, config: {}, runtimeSrc }, 'shop');
+    const importMap = resolveImportMap({ imports: { '@wordpress/interactivity': runtimeSrc } }, 'shop');
+
+    expect(interactivity.runtimeSrc).toBe(
+      '/atx/shop/wp-internal-assets/wp-includes/js/dist/script-modules/interactivity/index.min.js?ver=6.7'
+    );
+    expect(interactivity.runtimeSrc).toBe(importMap.imports['@wordpress/interactivity']);
+  });
+
+  it('should keep Interactivity API data without a runtime', () => {
+    const interactivity = { state: {}, config: {}, runtimeSrc: null };
+
+    expect(resolveInteractivity(interactivity, 'shop')).toBe(interactivity);
+    expect(mockGetWPInstance).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { EnqueuedScriptModule } from '../types';
+import { getWPInstance } from '../config/getWPInstance';
+import { getDefaultInstanceSlug } from '../config/getDefaultInstanceSlug';
+import { resolveAssetUrl } from './resolveAssetUrl';
+import { ImportMap, ResolvedScriptModule, rewriteImportMap } from './importMap';
+import type { InteractivityData } from '../fetchByUri';
+
+/**
+ * Resolves each script module to the URL ScriptModules should import.
+ * External modules keep their src, WordPress modules are mapped to /atx/:slug proxy paths.
+ *
+ * Server-side only - call during RSC rendering and pass the result to ScriptModules.
+ *
+ * @param modules - Script modules from assetsByUri
+ * @param instance - WordPress instance slug. Defaults to the configured default instance.
+ */
+export function resolveScriptModules(
+  modules: EnqueuedScriptModule[],
+  instance: string = getDefaultInstanceSlug()
+): ResolvedScriptModule[] {
+  const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
+
+  return modules.map((module) => ({
+    ...module,
+    resolvedSrc: module.src ? resolveAssetUrl(module.src, { instance, wpHomeUrl, wpSiteUrl }) : null,
+  }));
+}
+
+/**
+ * Rewrites the module URLs in an import map with the instance URLs, like resolveScriptModules.
+ *
+ * Server-side only - call during RSC rendering and pass the result to ScriptModules.
+ *
+ * @param importMap - Import map from assetsByUri
+ * @param instance - WordPress instance slug. Defaults to the configured default instance.
+ */
+export function resolveImportMap(
+  importMap: ImportMap,
+  instance: string = getDefaultInstanceSlug()
+): ImportMap {
+  const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
+
+  return rewriteImportMap(importMap, { instance, wpHomeUrl, wpSiteUrl });
+}
+
+/**
+ * Resolves the Interactivity API runtime URL with the instance URLs, like resolveImportMap,
+ * so InteractivityLoader imports the runtime from the same URL the import map points at.
+ *
+ * Server-side only - call during RSC rendering and pass the result to InteractivityLoader.
+ *
+ * @param interactivity - Interactivity API data from assetsByUri
+ * @param instance - WordPress instance slug. Defaults to the configured default instance.
+ */
+export function resolveInteractivity(
+  interactivity: InteractivityData,
+  instance: string = getDefaultInstanceSlug()
+): InteractivityData {
+  if (!interactivity.runtimeSrc) {
+    return interactivity;
+  }
+
+  const { wpHomeUrl, wpSiteUrl } = getWPInstance(instance);
+
+  return {
+    ...interactivity,
+    runtimeSrc: resolveAssetUrl(interactivity.runtimeSrc, { instance, wpHomeUrl, wpSiteUrl }),
+  };
+}
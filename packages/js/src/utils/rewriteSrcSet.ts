@@ -0,0 +1,17 @@
+/**
+ * Rewrites each candidate URL in a srcset, keeping its width or density descriptor
+ *
+ * @param srcSet - srcset attribute value, e.g. 'a.jpg 1024w, a-300x225.jpg 300w'
+ * @param rewrite - Maps a candidate URL to its new URL
+ */
+export function rewriteSrcSet(srcSet: string, rewrite: (url: string) => string): string {
+  return srcSet
+    .split(',')
+    .map((candidate) => candidate.trim())
+    .filter(Boolean)
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.split(/\s+/);
+      return [rewrite(url), ...descriptors].join(' ');
+    })
+    .join(', ');
+}
@@ -7,13 +7,13 @@ import { EnqueuedScript } from '../types';
  * @param scripts - Array of EnqueuedScript objects with potential dependencies
  * @returns Sorted array where dependencies appear before dependents
  */
-export function sortScriptsByDependencies(scripts: EnqueuedScript[]): EnqueuedScript[] {
+export function sortScriptsByDependencies<T extends EnqueuedScript>(scripts: T[]): T[] {
   if (!scripts || scripts.length === 0) {
     return [];
   }
 
   // Create a map for quick script lookup by handle
-  const scriptMap = new Map<string, EnqueuedScript>();
+  const scriptMap = new Map<string, T>();
   scripts.forEach(script => {
     if (script.handle) {
       scriptMap.set(script.handle, script);
@@ -96,7 +96,7 @@ export function sortScriptsByDependencies(scripts: EnqueuedScript[]): EnqueuedSc
   }
 
   // Convert sorted handles back to script objects
-  const sortedScripts: EnqueuedScript[] = [];
+  const sortedScripts: T[] = [];
   sorted.forEach(handle => {
     const script = scriptMap.get(handle);
     if (script) {
@@ -0,0 +1,10 @@
+/**
+ * Triggers DOMContentLoaded event for scripts that depend on it.
+ * This allows WordPress view scripts that listen for DOMContentLoaded to execute.
+ */
+export function triggerDOMContentLoaded() {
+  if (typeof window !== 'undefined' && document.readyState !== 'loading') {
+    const event = new Event('DOMContentLoaded', { bubbles: true, cancelable: true });
+    document.dispatchEvent(event);
+  }
+}
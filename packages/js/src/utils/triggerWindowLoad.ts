@@ -0,0 +1,9 @@
+/**
+ * Triggers the window load event for scripts that depend on it.
+ * Only useful after client-side navigation, since the browser fires it once per document.
+ */
+export function triggerWindowLoad() {
+  if (typeof window !== 'undefined' && document.readyState === 'complete') {
+    window.dispatchEvent(new Event('load'));
+  }
+}
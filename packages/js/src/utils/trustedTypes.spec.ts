@@ -0,0 +1,55 @@
+describe('trustedTypes', () => {
+  let createPolicy: jest.Mock;
+
+  beforeEach(() => {
+    createPolicy = jest.fn((name: string, rules: { createScript: (code: string) => string; createScriptURL: (url: string) => string }) => ({
+      createScript: (code: string) => `/* ${name} */ ${rules.createScript(code)}`,
+      createScriptURL: (url: string) => `${rules.createScriptURL(url)}?policy=${name}`,
+    }));
+  });
+
+  afterEach(() => {
+    delete (window as any).trustedTypes;
+  });
+
+  // The policy is module state, so every test gets a fresh copy of the module
+  function loadModule(): typeof import('./trustedTypes') {
+    let module: typeof import('./trustedTypes') | undefined;
+    jest.isolateModules(() => {
+      module = require('./trustedTypes');
+    });
+    return module as typeof import('./trustedTypes');
+  }
+
+  it('should set code and URLs unchanged without a policy', () => {
+    const { setScriptText, setScriptSrc } = loadModule();
+    const el = document.createElement('script');
+
+    setScriptText(el, 'window.example = 1;');
+    setScriptSrc(el, 'https://example.com/a.js');
+
+    expect(el.textContent).toBe('window.example = 1;');
+    expect(el.getAttribute('src')).toBe('https://example.com/a.js');
+  });
+
+  it('should not create a policy without Trusted Types support', () => {
+    expect(loadModule().createTrustedTypesPolicy()).toBe(false);
+  });
+
+  it('should pass code and URLs through the policy', () => {
+    (window as any).trustedTypes = { createPolicy };
+    const { createTrustedTypesPolicy, setScriptText, setScriptSrc } = loadModule();
+
+    expect(createTrustedTypesPolicy('my-site')).toBe(true);
+    // Policy names can only be created once
+    expect(createTrustedTypesPolicy('my-site')).toBe(true);
+    expect(createPolicy).toHaveBeenCalledTimes(1);
+
+    const el = document.createElement('script');
+    setScriptText(el, 'window.example = 1;');
+    setScriptSrc(el, 'https://example.com/a.js');
+
+    expect(el.textContent).toBe('/* my-site */ window.example = 1;');
+    expect(el.getAttribute('src')).toBe('https://example.com/a.js?policy=my-site');
+  });
+});
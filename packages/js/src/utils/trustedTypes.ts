@@ -0,0 +1,60 @@
+/**
+ * The parts of the Trusted Types API NextPress uses. TypeScript's DOM types don't include it yet.
+ */
+interface TrustedTypePolicy {
+  createScript(code: string): unknown;
+  createScriptURL(url: string): unknown;
+}
+
+interface TrustedTypePolicyFactory {
+  createPolicy(
+    name: string,
+    rules: { createScript: (code: string) => string; createScriptURL: (url: string) => string }
+  ): TrustedTypePolicy;
+}
+
+let policy: TrustedTypePolicy | null = null;
+
+/**
+ * Creates the Trusted Types policy NextPress uses for the scripts it injects. Call it once in a
+ * client module before the loaders run, and allow the policy name in the CSP, e.g.
+ * `trusted-types nextpress`.
+ *
+ * The policy passes code and URLs through unchanged: they come from WordPress, which the
+ * site already trusts to render its pages.
+ *
+ * @param name - Policy name, 'nextpress' by default
+ * @returns Whether the policy was created. False on the server and in browsers without Trusted Types.
+ */
+export function createTrustedTypesPolicy(name = 'nextpress'): boolean {
+  const factory = typeof window !== 'undefined'
+    ? (window as unknown as { trustedTypes?: TrustedTypePolicyFactory }).trustedTypes
+    : undefined;
+
+  if (!factory) {
+    return false;
+  }
+
+  if (!policy) {
+    policy = factory.createPolicy(name, {
+      createScript: (code) => code,
+      createScriptURL: (url) => url,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Sets the code of a script element, through the Trusted Types policy if one was created
+ */
+export function setScriptText(el: HTMLScriptElement, code: string) {
+  el.textContent = (policy ? policy.createScript(code) : code) as string;
+}
+
+/**
+ * Sets the src of a script element, through the Trusted Types policy if one was created
+ */
+export function setScriptSrc(el: HTMLScriptElement, src: string) {
+  el.src = (policy ? policy.createScriptURL(src) : src) as string;
+}
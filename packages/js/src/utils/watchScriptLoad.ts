@@ -0,0 +1,56 @@
+import type { ScriptStatus } from '@/ScriptLoader';
+
+export interface WatchScriptLoadOptions {
+  handle: string;
+  /** Milliseconds to wait for the script. 0 waits indefinitely. */
+  timeout: number;
+  /** Called with every status change, including a script that loads after timing out */
+  onStatus: (status: ScriptStatus) => void;
+  /** Called once, when the script loads, fails or times out */
+  onSettled: (status: ScriptStatus) => void;
+}
+
+/**
+ * Tracks the status of a script element, from pending until it loads, fails or times out.
+ * Call it before inserting the element.
+ */
+export function watchScriptLoad(el: HTMLScriptElement, { handle, timeout, onStatus, onSettled }: WatchScriptLoadOptions) {
+  const startTime = performance.now();
+  let settled = false;
+
+  const report = (state: ScriptStatus['state']) => {
+    const endTime = performance.now();
+    const status: ScriptStatus = { handle, state, startTime, endTime, duration: endTime - startTime };
+    onStatus(status);
+    return status;
+  };
+
+  const settle = (state: ScriptStatus['state']) => {
+    if (settled) {
+      // The script arrived after the timeout, the loader has moved on
+      if (state === 'loaded') {
+        report(state);
+      }
+      return;
+    }
+    settled = true;
+    clearTimeout(timeoutId);
+    onSettled(report(state));
+  };
+
+  const timeoutId = timeout > 0 ? setTimeout(() => settle('timed-out'), timeout) : undefined;
+
+  el.addEventListener('load', () => settle('loaded'));
+  el.addEventListener('error', () => settle('failed'));
+
+  onStatus({ handle, state: 'pending', startTime });
+}
+
+/**
+ * Status of a script that loaded without a request, e.g. an inline-only handle or one
+ * an earlier page already loaded
+ */
+export function createLoadedStatus(handle: string): ScriptStatus {
+  const now = performance.now();
+  return { handle, state: 'loaded', startTime: now, endTime: now, duration: 0 };
+}
@@ -1 +1 @@
-export * from './withWCR';
\ No newline at end of file
+export * from './withWCR';
@@ -0,0 +1,329 @@
+/**
+ * withWCR configuration validation
+ * Normalizes the accepted configuration shapes and validates them at config load,
+ * so mistakes surface when next.config is evaluated instead of at request time.
+ */
+
+import { getRouteParams, RoutePattern } from '../utils/mapRoute';
+
+export type WPConfig = {
+  wpDomain: string;
+  wpProtocol: string;
+  wpHomeUrl?: string;
+  wpSiteUrl?: string;
+  /** Path (relative to wpHomeUrl) or absolute URL of the WPGraphQL endpoint. Defaults to '/graphql'. */
+  wpGraphqlPath?: string;
+  /** Authorization header value sent with server-side GraphQL requests, e.g. 'Basic ...' */
+  wpGraphqlAuth?: string;
+  /**
+   * Maps WordPress paths to frontend routes, e.g. { source: '/product/:slug', destination: '/shop/:slug' }.
+   * Used for content links and WooCommerce page URLs.
+   */
+  routes?: RoutePattern[];
+}
+
+export type MultiWPConfig = Record<string, WPConfig>;
+
+/**
+ * Multi-instance configuration wrapped in an `instances` key
+ */
+export type WCRInstancesConfig = {
+  instances: MultiWPConfig;
+};
+
+export type WCROptions = {
+  frontendDomain: string;
+  frontendProtocol: string;
+  defaultInstance?: string;
+  formatPermalinks?: boolean;
+  /**
+   * @deprecated No longer used. Script origins are classified server-side by
+   * resolveEnqueuedScripts instead of disclosing an obscured backend URL.
+   */
+  salt?: string;
+}
+
+export type WCRConfig = WPConfig | MultiWPConfig | WCRInstancesConfig;
+
+/**
+ * Instance slugs are interpolated into proxy route patterns (`/atx/:slug/...`),
+ * so only URL- and RegExp-safe characters are allowed.
+ */
+const SLUG_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const ALLOWED_PROTOCOLS = ['http', 'https'];
+
+const OPTION_KEYS: Array<keyof WCROptions> = [
+  'frontendDomain',
+  'frontendProtocol',
+  'defaultInstance',
+  'formatPermalinks',
+  'salt',
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+/**
+ * Formats an instance field path, e.g. instances.blog.wpProtocol or instances["my blog"]
+ */
+function fieldPath(slug: string, field?: string): string {
+  const base = SLUG_PATTERN.test(slug) ? `instances.${slug}` : `instances[${JSON.stringify(slug)}]`;
+  return field ? `${base}.${field}` : base;
+}
+
+/**
+ * Validates an absolute http(s) URL
+ */
+function validateUrl(value: unknown, path: string, issues: string[]): void {
+  if (typeof value !== 'string' || !value) {
+    issues.push(`${path}: expected a URL string, received ${formatValue(value)}`);
+    return;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    issues.push(`${path}: ${formatValue(value)} is not a valid URL`);
+    return;
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol.replace(/:$/, ''))) {
+    issues.push(`${path}: protocol must be "http" or "https", received "${url.protocol.replace(/:$/, '')}"`);
+  }
+}
+
+function validateProtocol(value: unknown, path: string, issues: string[]): boolean {
+  if (typeof value !== 'string' || !ALLOWED_PROTOCOLS.includes(value)) {
+    issues.push(`${path}: expected "http" or "https", received ${formatValue(value)}`);
+    return false;
+  }
+  return true;
+}
+
+function validateDomain(value: unknown, protocol: unknown, path: string, issues: string[]): void {
+  if (typeof value !== 'string' || !value) {
+    issues.push(`${path}: expected a domain string, received ${formatValue(value)}`);
+    return;
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    issues.push(`${path}: must not include a protocol, received "${value}"`);
+    return;
+  }
+
+  try {
+    const url = new URL(`${typeof protocol === 'string' ? protocol : 'https'}://${value}`);
+    if (url.pathname !== '/' || url.search || url.hash) {
+      issues.push(`${path}: must be a host (and optional port) without a path, received "${value}"`);
+    }
+  } catch {
+    issues.push(`${path}: "${value}" is not a valid domain`);
+  }
+}
+
+function validateInstance(slug: string, instance: unknown, issues: string[]): void {
+  if (!SLUG_PATTERN.test(slug)) {
+    issues.push(`${fieldPath(slug)}: slug may only contain letters, numbers, "-" and "_"`);
+  }
+
+  if (!isPlainObject(instance)) {
+    issues.push(`${fieldPath(slug)}: expected an object, received ${formatValue(instance)}`);
+    return;
+  }
+
+  const { wpDomain, wpProtocol, wpHomeUrl, wpSiteUrl, wpGraphqlPath, wpGraphqlAuth, routes } = instance;
+
+  const validProtocol = validateProtocol(wpProtocol, fieldPath(slug, 'wpProtocol'), issues);
+  validateDomain(wpDomain, validProtocol ? wpProtocol : undefined, fieldPath(slug, 'wpDomain'), issues);
+
+  if (wpHomeUrl !== undefined) {
+    validateUrl(wpHomeUrl, fieldPath(slug, 'wpHomeUrl'), issues);
+  }
+  if (wpSiteUrl !== undefined) {
+    validateUrl(wpSiteUrl, fieldPath(slug, 'wpSiteUrl'), issues);
+  }
+
+  if (wpGraphqlPath !== undefined) {
+    if (typeof wpGraphqlPath !== 'string' || !wpGraphqlPath) {
+      issues.push(`${fieldPath(slug, 'wpGraphqlPath')}: expected a path or URL string, received ${formatValue(wpGraphqlPath)}`);
+    } else if (/^[a-z][a-z0-9+.-]*:/i.test(wpGraphqlPath)) {
+      validateUrl(wpGraphqlPath, fieldPath(slug, 'wpGraphqlPath'), issues);
+    }
+  }
+
+  if (wpGraphqlAuth !== undefined && typeof wpGraphqlAuth !== 'string') {
+    issues.push(`${fieldPath(slug, 'wpGraphqlAuth')}: expected a string, received ${formatValue(wpGraphqlAuth)}`);
+  }
+
+  if (routes !== undefined) {
+    validateRoutes(routes, fieldPath(slug, 'routes'), issues);
+  }
+}
+
+/**
+ * Validates route patterns. Functions cannot be serialized into the Next.js config,
+ * so only patterns are accepted here. Functions go to the routes prop of Content and BodyScripts.
+ */
+function validateRoutes(routes: unknown, path: string, issues: string[]): void {
+  if (!Array.isArray(routes)) {
+    issues.push(`${path}: expected an array of { source, destination } patterns, received ${formatValue(routes)}`);
+    return;
+  }
+
+  routes.forEach((route, index) => {
+    const routePath = `${path}[${index}]`;
+    if (typeof route === 'function') {
+      issues.push(`${routePath}: functions cannot be serialized into the Next.js config, pass them to the routes prop of Content and BodyScripts`);
+      return;
+    }
+    if (!isPlainObject(route)) {
+      issues.push(`${routePath}: expected a { source, destination } pattern, received ${formatValue(route)}`);
+      return;
+    }
+
+    const { source, destination } = route;
+    let valid = true;
+    for (const [key, value] of [['source', source], ['destination', destination]] as const) {
+      if (typeof value !== 'string' || !value.startsWith('/')) {
+        issues.push(`${routePath}.${key}: expected a path starting with "/", received ${formatValue(value)}`);
+        valid = false;
+      }
+    }
+    if (!valid) {
+      return;
+    }
+
+    const sourceParams = getRouteParams(source as string);
+    for (const param of getRouteParams(destination as string)) {
+      if (!sourceParams.includes(param)) {
+        issues.push(`${routePath}.destination: parameter ":${param}" is not defined in source "${source}"`);
+      }
+    }
+  });
+}
+
+function validateOptions(options: Record<string, unknown>, slugs: string[], issues: string[]): void {
+  const { frontendDomain, frontendProtocol, defaultInstance, formatPermalinks, salt } = options;
+
+  const validProtocol = validateProtocol(frontendProtocol, 'frontendProtocol', issues);
+  validateDomain(frontendDomain, validProtocol ? frontendProtocol : undefined, 'frontendDomain', issues);
+
+  if (defaultInstance !== undefined) {
+    if (typeof defaultInstance !== 'string') {
+      issues.push(`defaultInstance: expected a string, received ${formatValue(defaultInstance)}`);
+    } else if (!slugs.includes(defaultInstance)) {
+      issues.push(
+        `defaultInstance: "${defaultInstance}" does not match a configured instance. Available instances: ${slugs.join(', ') || '(none)'}`
+      );
+    }
+  }
+
+  if (formatPermalinks !== undefined && typeof formatPermalinks !== 'boolean') {
+    issues.push(`formatPermalinks: expected a boolean, received ${formatValue(formatPermalinks)}`);
+  }
+
+  if (salt !== undefined) {
+    console.warn('[NextPress] The withWCR "salt" option is deprecated and ignored. It can be removed.');
+  }
+}
+
+/**
+ * Splits the accepted withWCR argument shapes into instances and options
+ *
+ * Supported shapes:
+ * - withWCR(config, { wpDomain, wpProtocol, ... }, options) - single instance, stored as 'default'
+ * - withWCR(config, { [slug]: { wpDomain, ... } }, options) - multi-instance
+ * - withWCR(config, { instances: { [slug]: { ... } } }, options) - multi-instance wrapper
+ * - withWCR(config, { ...any of the above, frontendDomain, frontendProtocol, ... }) - options inline
+ */
+function resolveShape(wpConfig: unknown, options: unknown): {
+  instances: Record<string, unknown>;
+  options: Record<string, unknown>;
+  issues: string[];
+} {
+  const issues: string[] = [];
+
+  if (!isPlainObject(wpConfig)) {
+    issues.push(`WordPress configuration: expected an object, received ${formatValue(wpConfig)}`);
+    return { instances: {}, options: isPlainObject(options) ? options : {}, issues };
+  }
+
+  let source: Record<string, unknown> = wpConfig;
+  let resolvedOptions: Record<string, unknown>;
+
+  if (options === undefined) {
+    // Options passed inline with the WordPress configuration
+    source = {};
+    resolvedOptions = {};
+    for (const [key, value] of Object.entries(wpConfig)) {
+      if ((OPTION_KEYS as string[]).includes(key)) {
+        resolvedOptions[key] = value;
+      } else {
+        source[key] = value;
+      }
+    }
+  } else if (isPlainObject(options)) {
+    resolvedOptions = options;
+  } else {
+    issues.push(`options: expected an object, received ${formatValue(options)}`);
+    resolvedOptions = {};
+  }
+
+  if ('wpDomain' in source || 'wpProtocol' in source) {
+    return { instances: { default: source }, options: resolvedOptions, issues };
+  }
+
+  if ('instances' in source && !(isPlainObject(source.instances) && 'wpDomain' in source.instances)) {
+    const { instances, ...rest } = source;
+    for (const key of Object.keys(rest)) {
+      issues.push(`${key}: unexpected key next to "instances". Move it inside "instances" or into the options argument`);
+    }
+    if (!isPlainObject(instances)) {
+      issues.push(`instances: expected an object, received ${formatValue(instances)}`);
+      return { instances: {}, options: resolvedOptions, issues };
+    }
+    source = instances;
+  }
+
+  if (Object.keys(source).length === 0) {
+    issues.push('instances: at least one instance is required');
+  }
+
+  return { instances: source, options: resolvedOptions, issues };
+}
+
+/**
+ * Validates withWCR arguments and returns the instances keyed by slug along with the options.
+ *
+ * @throws Error listing every invalid field when validation fails
+ */
+export function validateWCRConfig(
+  wpConfig: unknown,
+  options?: unknown
+): { instances: MultiWPConfig; options: WCROptions } {
+  const resolved = resolveShape(wpConfig, options);
+  const issues = [...resolved.issues];
+
+  for (const [slug, instance] of Object.entries(resolved.instances)) {
+    validateInstance(slug, instance, issues);
+  }
+  validateOptions(resolved.options, Object.keys(resolved.instances), issues);
+
+  if (issues.length > 0) {
+    throw new Error(
+      `[NextPress] Invalid withWCR configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`
+    );
+  }
+
+  return {
+    instances: resolved.instances as MultiWPConfig,
+    options: resolved.options as WCROptions,
+  };
+}
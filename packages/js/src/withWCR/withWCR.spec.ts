@@ -179,8 +179,8 @@ describe('withWCR', () => {
       expect(redirects).toBeDefined();
       expect(Array.isArray(redirects)).toBe(true);
 
-      // Should have 2 redirects per instance (wc-ajax and wp-ajax)
-      expect(redirects?.length).toBe(4);
+      // Should have 2 redirects per instance (wc-ajax and wp-ajax) + 2 root redirects for the default instance
+      expect(redirects?.length).toBe(6);
 
       // Check main instance redirects
       const mainWcRedirect = redirects?.find(
@@ -285,14 +285,39 @@ describe('withWCR', () => {
       const redirects = await result.redirects?.();
 
       expect(redirects).toBeDefined();
-      // Should have existing redirect + 2 WordPress redirects
-      expect(redirects?.length).toBe(3);
+      // Should have existing redirect + 2 instance redirects + 2 root redirects
+      expect(redirects?.length).toBe(5);
 
       // Check existing redirect is preserved
       const oldRedirect = redirects?.find(r => r.source === '/old-path');
       expect(oldRedirect).toBeDefined();
     });
 
+    it('should route root AJAX requests to the default instance', async () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'https',
+        },
+        shop: {
+          wpDomain: 'shop.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+        defaultInstance: 'shop',
+      };
+
+      const result = withWCR(nextConfig, wpConfig, options);
+      const redirects = await result.redirects?.();
+
+      const rootRedirects = redirects?.filter(r => r.source === '/');
+      expect(rootRedirects?.map(r => r.destination)).toEqual(['/atx/shop/wc', '/atx/shop/wp']);
+    });
+
     it('should throw error if redirects callback returns non-array', async () => {
       const nextConfig: NextConfig = {
         redirects: async () => 'invalid' as any,
@@ -336,6 +361,75 @@ describe('withWCR', () => {
       expect(result.env?.wcr_frontend_url).toBe('http://nextjs.example.com');
     });
 
+    it('should expose the configured default instance', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'https',
+        },
+        shop: {
+          wpDomain: 'shop.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+        defaultInstance: 'shop',
+      };
+
+      const result = withWCR(nextConfig, wpConfig, options);
+
+      expect(process.env.NEXTPRESS_DEFAULT_INSTANCE).toBe('shop');
+      expect(result.env?.wcr_default_instance).toBe('shop');
+    });
+
+    it('should default to the "default" instance when present', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        blog: {
+          wpDomain: 'blog.example.com',
+          wpProtocol: 'https',
+        },
+        default: {
+          wpDomain: 'wordpress.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      const result = withWCR(nextConfig, wpConfig, options);
+
+      expect(result.env?.wcr_default_instance).toBe('default');
+    });
+
+    it('should fall back to the first instance without a "default" instance', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'https',
+        },
+        shop: {
+          wpDomain: 'shop.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      const result = withWCR(nextConfig, wpConfig, options);
+
+      expect(process.env.NEXTPRESS_DEFAULT_INSTANCE).toBe('main');
+      expect(result.env?.wcr_default_instance).toBe('main');
+    });
+
     it('should inject instance configs into process.env (server-side only)', () => {
       const nextConfig: NextConfig = {};
       const wpConfig = {
@@ -358,6 +452,61 @@ describe('withWCR', () => {
       expect(instances.main.wpDomain).toBe('main.example.com');
     });
 
+    it('should default the GraphQL endpoint to /graphql on wpHomeUrl', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      withWCR(nextConfig, wpConfig, options);
+
+      const instances = JSON.parse(process.env.NEXTPRESS_WP_INSTANCES as string);
+      expect(instances.main.wpGraphqlUrl).toBe('https://main.example.com/graphql');
+      expect(instances.main.wpGraphqlAuth).toBeUndefined();
+    });
+
+    it('should resolve per-instance GraphQL paths and auth', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'https',
+          wpGraphqlPath: '/wp/graphql',
+          wpGraphqlAuth: 'Basic dXNlcjpwYXNz',
+        },
+        blog: {
+          wpDomain: 'blog.example.com',
+          wpProtocol: 'https',
+          wpHomeUrl: 'https://blog.example.com/',
+          wpGraphqlPath: 'api',
+        },
+        shop: {
+          wpDomain: 'shop.example.com',
+          wpProtocol: 'https',
+          wpGraphqlPath: 'https://graphql.shop.example.com/',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      withWCR(nextConfig, wpConfig, options);
+
+      const instances = JSON.parse(process.env.NEXTPRESS_WP_INSTANCES as string);
+      expect(instances.main.wpGraphqlUrl).toBe('https://main.example.com/wp/graphql');
+      expect(instances.main.wpGraphqlAuth).toBe('Basic dXNlcjpwYXNz');
+      expect(instances.blog.wpGraphqlUrl).toBe('https://blog.example.com/api');
+      expect(instances.shop.wpGraphqlUrl).toBe('https://graphql.shop.example.com/');
+    });
+
     it('should not expose instance configs in config.env (client-side)', () => {
       const nextConfig: NextConfig = {};
       const wpConfig = {
@@ -376,21 +525,316 @@ describe('withWCR', () => {
       // Should NOT be in config.env (client-side)
       const env = result.env as Record<string, string> | undefined;
       expect(env?.NEXTPRESS_WP_INSTANCES).toBeUndefined();
+      expect(JSON.stringify(env)).not.toContain('graphql');
+      expect(env?.wcr_salt).toBeUndefined();
+    });
+
+    it('should expose route patterns keyed by instance', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        shop: {
+          wpDomain: 'shop.example.com',
+          wpProtocol: 'https',
+          routes: [{ source: '/product/:slug', destination: '/shop/:slug' }],
+        },
+        blog: {
+          wpDomain: 'blog.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      const result = withWCR(nextConfig, wpConfig, options);
+
+      expect(JSON.parse(result.env?.wcr_routes as string)).toEqual({
+        shop: [{ source: '/product/:slug', destination: '/shop/:slug' }],
+      });
+    });
+
+    it('should not set route patterns when no instance has routes', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        wpDomain: 'wordpress.example.com',
+        wpProtocol: 'https',
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      const result = withWCR(nextConfig, wpConfig, options);
+
+      expect(result.env?.wcr_routes).toBeUndefined();
     });
   });
 
   describe('configuration validation', () => {
-    it('should handle empty multi-instance config', () => {
+    it('should require at least one instance', () => {
       const nextConfig: NextConfig = {};
-      const wpConfig = {};
       const options = {
         frontendDomain: 'nextjs.example.com',
         frontendProtocol: 'https',
       };
 
-      const result = withWCR(nextConfig, wpConfig, options);
+      expect(() => withWCR(nextConfig, {}, options)).toThrow('instances: at least one instance is required');
+      expect(() => withWCR(nextConfig, { instances: {} }, options)).toThrow('instances: at least one instance is required');
+    });
 
-      expect(result).toBeDefined();
+    it('should accept the documented instances wrapper', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        instances: {
+          blog: {
+            wpDomain: 'blog.example.com',
+            wpProtocol: 'https',
+          },
+          shop: {
+            wpDomain: 'shop.example.com',
+            wpProtocol: 'https',
+            wpSiteUrl: 'https://shop.example.com/wp',
+          },
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      withWCR(nextConfig, wpConfig, options);
+
+      const instances = JSON.parse(process.env.NEXTPRESS_WP_INSTANCES as string);
+      expect(Object.keys(instances)).toEqual(['blog', 'shop']);
+      expect(instances.shop.wpSiteUrl).toBe('https://shop.example.com/wp');
+    });
+
+    it('should accept options inline with the WordPress configuration', () => {
+      const nextConfig: NextConfig = {};
+
+      const result = withWCR(nextConfig, {
+        wpDomain: 'wordpress.example.com',
+        wpProtocol: 'https',
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      });
+
+      const instances = JSON.parse(process.env.NEXTPRESS_WP_INSTANCES as string);
+      expect(Object.keys(instances)).toEqual(['default']);
+      expect(instances.default.frontendDomain).toBeUndefined();
+      expect(result.env?.wcr_frontend_url).toBe('https://nextjs.example.com');
+    });
+
+    it('should accept the instances wrapper with inline options', () => {
+      const nextConfig: NextConfig = {};
+
+      withWCR(nextConfig, {
+        instances: {
+          shop: {
+            wpDomain: 'shop.example.com',
+            wpProtocol: 'https',
+          },
+        },
+        defaultInstance: 'shop',
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      });
+
+      const instances = JSON.parse(process.env.NEXTPRESS_WP_INSTANCES as string);
+      expect(Object.keys(instances)).toEqual(['shop']);
+    });
+
+    it('should reject slugs containing slashes or RegExp metacharacters', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        'my/blog': {
+          wpDomain: 'blog.example.com',
+          wpProtocol: 'https',
+        },
+        'shop.*': {
+          wpDomain: 'shop.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances["my/blog"]: slug may only contain letters, numbers, "-" and "_"'
+      );
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances["shop.*"]: slug may only contain letters, numbers, "-" and "_"'
+      );
+    });
+
+    it('should reject protocols other than http and https', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'ftp',
+          wpSiteUrl: 'file:///var/www/wp',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https:',
+      };
+
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances.main.wpProtocol: expected "http" or "https", received "ftp"'
+      );
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances.main.wpSiteUrl: protocol must be "http" or "https", received "file"'
+      );
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'frontendProtocol: expected "http" or "https", received "https:"'
+      );
+    });
+
+    it('should reject unparseable URLs and domains', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'https://main.example.com',
+          wpProtocol: 'https',
+          wpHomeUrl: 'not a url',
+          wpGraphqlPath: 'https://exa mple.com/graphql',
+        },
+        blog: {
+          wpDomain: 'blog.example.com/wp',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances.main.wpDomain: must not include a protocol, received "https://main.example.com"'
+      );
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances.main.wpHomeUrl: "not a url" is not a valid URL'
+      );
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances.main.wpGraphqlPath: "https://exa mple.com/graphql" is not a valid URL'
+      );
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'instances.blog.wpDomain: must be a host (and optional port) without a path, received "blog.example.com/wp"'
+      );
+    });
+
+    it('should reject invalid route patterns', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'https',
+          routes: [
+            { source: 'product/:slug', destination: '/shop/:slug' },
+            { source: '/:year/:slug', destination: '/blog/:category/:slug' },
+            (path: string) => path,
+          ],
+        },
+        blog: {
+          wpDomain: 'blog.example.com',
+          wpProtocol: 'https',
+          routes: { '/product/:slug': '/shop/:slug' },
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      };
+
+      expect(() => withWCR(nextConfig, wpConfig as any, options)).toThrow(
+        'instances.main.routes[0].source: expected a path starting with "/", received "product/:slug"'
+      );
+      expect(() => withWCR(nextConfig, wpConfig as any, options)).toThrow(
+        'instances.main.routes[1].destination: parameter ":category" is not defined in source "/:year/:slug"'
+      );
+      expect(() => withWCR(nextConfig, wpConfig as any, options)).toThrow(
+        'instances.main.routes[2]: functions cannot be serialized into the Next.js config, pass them to the routes prop of Content and BodyScripts'
+      );
+      expect(() => withWCR(nextConfig, wpConfig as any, options)).toThrow(
+        'instances.blog.routes: expected an array of { source, destination } patterns, received [object Object]'
+      );
+    });
+
+    it('should reject a defaultInstance that is not configured', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpDomain: 'main.example.com',
+          wpProtocol: 'https',
+        },
+      };
+      const options = {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+        defaultInstance: 'shop',
+      };
+
+      expect(() => withWCR(nextConfig, wpConfig, options)).toThrow(
+        'defaultInstance: "shop" does not match a configured instance. Available instances: main'
+      );
+    });
+
+    it('should aggregate every issue into a single error', () => {
+      const nextConfig: NextConfig = {};
+      const wpConfig = {
+        main: {
+          wpProtocol: 'gopher',
+        },
+      } as unknown as Record<string, { wpDomain: string; wpProtocol: string }>;
+      const options = {
+        frontendDomain: '',
+        frontendProtocol: 'https',
+        defaultInstance: 'missing',
+      };
+
+      let error: Error | undefined;
+      try {
+        withWCR(nextConfig, wpConfig, options);
+      } catch (e) {
+        error = e as Error;
+      }
+
+      expect(error?.message).toBe([
+        '[NextPress] Invalid withWCR configuration:',
+        '  - instances.main.wpProtocol: expected "http" or "https", received "gopher"',
+        '  - instances.main.wpDomain: expected a domain string, received undefined',
+        '  - frontendDomain: expected a domain string, received ""',
+        '  - defaultInstance: "missing" does not match a configured instance. Available instances: main',
+      ].join('\n'));
+    });
+
+    it('should warn about the deprecated salt option instead of validating it', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(() => withWCR({}, { main: { wpDomain: 'main.example.com', wpProtocol: 'https' } }, {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+        salt: '',
+      })).not.toThrow();
+
+      expect(warnSpy).toHaveBeenCalledWith('[NextPress] The withWCR "salt" option is deprecated and ignored. It can be removed.');
+      warnSpy.mockRestore();
+    });
+
+    it('should not set environment variables when validation fails', () => {
+      process.env.NEXTPRESS_WP_INSTANCES = 'previous';
+
+      expect(() => withWCR({}, { main: { wpDomain: 'main.example.com', wpProtocol: 'ws' } }, {
+        frontendDomain: 'nextjs.example.com',
+        frontendProtocol: 'https',
+      })).toThrow('[NextPress] Invalid withWCR configuration');
+
+      expect(process.env.NEXTPRESS_WP_INSTANCES).toBe('previous');
     });
 
     it('should preserve other Next.js config options', () => {
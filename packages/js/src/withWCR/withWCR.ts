@@ -1,64 +1,87 @@
 import { NextConfig } from 'next';
-
-type WPConfig = {
-  wpDomain: string;
-  wpProtocol: string;
-  wpHomeUrl?: string;
-  wpSiteUrl?: string;
+import {
+  validateWCRConfig,
+  WPConfig,
+  WCROptions,
+  WCRInstancesConfig,
+  WCRConfig,
+} from './validateWCRConfig';
+import { FALLBACK_INSTANCE_SLUG } from '../config/getDefaultInstanceSlug';
+
+export type { WPConfig, MultiWPConfig, WCROptions, WCRInstancesConfig, WCRConfig } from './validateWCRConfig';
+
+type NormalizedWPConfig = WPConfig & {
+  wpHomeUrl: string;
+  wpSiteUrl: string;
+  wpGraphqlUrl: string;
 }
 
-type WCROptions = {
-  frontendDomain: string;
-  frontendProtocol: string;
-  defaultInstance?: string;
-  formatPermalinks?: boolean;
-  salt?: string;
-}
+/**
+ * Resolves the GraphQL endpoint URL for an instance
+ */
+function resolveGraphqlUrl(wpHomeUrl: string, wpGraphqlPath = '/graphql'): string {
+  if (/^https?:\/\//.test(wpGraphqlPath)) {
+    return wpGraphqlPath;
+  }
 
-type MultiWPConfig = Record<string, WPConfig>;
+  const path = wpGraphqlPath.startsWith('/') ? wpGraphqlPath : `/${wpGraphqlPath}`;
+  return `${wpHomeUrl.replace(/\/$/, '')}${path}`;
+}
 
 /**
- * Detects if config is single instance (legacy) or multi-instance
+ * Resolves the default instance slug.
+ * Uses the configured defaultInstance, then an instance named 'default', then the first instance.
  */
-function isSingleInstance(config: WPConfig | MultiWPConfig): config is WPConfig {
-  return 'wpDomain' in config && 'wpProtocol' in config;
+function resolveDefaultInstance(slugs: string[], defaultInstance?: string): string {
+  if (defaultInstance) {
+    return defaultInstance;
+  }
+  if (slugs.includes(FALLBACK_INSTANCE_SLUG)) {
+    return FALLBACK_INSTANCE_SLUG;
+  }
+  return slugs[0] || FALLBACK_INSTANCE_SLUG;
 }
 
 /**
  * withWCR Next.js plugin
  * Configures WordPress backend(s) for NextPress
  *
+ * The configuration is validated when next.config is loaded. All problems are
+ * reported together in a single error naming each invalid field.
+ *
  * @param config - Next.js configuration
- * @param wpConfig - Single WPConfig (legacy) or Record<string, WPConfig> for multi-instance
- * @param options - Frontend configuration options
+ * @param wpConfig - Single WPConfig (legacy), Record<string, WPConfig>, or { instances: Record<string, WPConfig> }
+ * @param options - Frontend configuration options. May be omitted when passed inline with wpConfig.
  */
+export function withWCR(config: NextConfig, wpConfig: WCRConfig, options: WCROptions): NextConfig;
+export function withWCR(config: NextConfig, wcrConfig: (WPConfig | WCRInstancesConfig) & WCROptions): NextConfig;
 export function withWCR(
   config: NextConfig,
-  wpConfig: WPConfig | MultiWPConfig,
-  options: WCROptions
+  wpConfig: WCRConfig | ((WPConfig | WCRInstancesConfig) & WCROptions),
+  options?: WCROptions
 ) {
-  const { frontendDomain, frontendProtocol, formatPermalinks = true, salt = 'nextpress-default-salt' } = options;
-
-  // Handle single instance (legacy support - convert to multi-instance with 'default' slug)
-  let instances: MultiWPConfig;
-  if (isSingleInstance(wpConfig)) {
-    instances = { default: wpConfig };
-  } else {
-    instances = wpConfig;
-  }
+  const { instances, options: resolvedOptions } = validateWCRConfig(wpConfig, options);
+  const { frontendDomain, frontendProtocol, formatPermalinks = true } = resolvedOptions;
 
   // Normalize each instance config
-  const normalizedInstances: MultiWPConfig = {};
+  const normalizedInstances: Record<string, NormalizedWPConfig> = {};
   for (const [slug, instance] of Object.entries(instances)) {
     const wpHomeUrl = instance.wpHomeUrl || `${instance.wpProtocol}://${instance.wpDomain}`;
     const wpSiteUrl = instance.wpSiteUrl || wpHomeUrl;
+    const wpGraphqlUrl = resolveGraphqlUrl(wpHomeUrl, instance.wpGraphqlPath);
     normalizedInstances[slug] = {
       ...instance,
       wpHomeUrl,
       wpSiteUrl,
+      wpGraphqlUrl,
     };
   }
 
+  const defaultInstance = resolveDefaultInstance(
+    Object.keys(normalizedInstances),
+    resolvedOptions.defaultInstance
+  );
+
   // Redirect type matching Next.js Redirect
   type Redirect = {
     source: string;
@@ -99,6 +122,24 @@ export function withWCR(
       });
     }
 
+    // WordPress generates root AJAX URLs (e.g. '/?wc-ajax=update_order_review'),
+    // which belong to the default instance
+    if (normalizedInstances[defaultInstance]) {
+      for (const [key, route] of [['wc-ajax', 'wc'], ['wp-ajax', 'wp']]) {
+        allRedirects.push({
+          source: '/',
+          has: [
+            {
+              type: "query" as "query",
+              key,
+            },
+          ],
+          permanent: false,
+          destination: `/atx/${defaultInstance}/${route}`,
+        });
+      }
+    }
+
     return allRedirects;
   };
 
@@ -106,8 +147,16 @@ export function withWCR(
   // This works with both Webpack and Turbopack, and both Node.js and Edge runtimes
   // Important: NOT added to config.env to keep it server-side only
   process.env.NEXTPRESS_WP_INSTANCES = JSON.stringify(normalizedInstances);
+  process.env.NEXTPRESS_DEFAULT_INSTANCE = defaultInstance;
   process.env.NEXTPRESS_FORMAT_PERMALINKS = formatPermalinks.toString();
-  process.env.NEXTPRESS_SALT = salt;
+
+  // Route patterns are needed by Content on the server and by wcSettings processing in the browser
+  const routes: Record<string, NonNullable<WPConfig['routes']>> = {};
+  for (const [slug, instance] of Object.entries(normalizedInstances)) {
+    if (instance.routes && instance.routes.length > 0) {
+      routes[slug] = instance.routes;
+    }
+  }
 
   const newConfig = {
     ...config,
@@ -115,8 +164,10 @@ export function withWCR(
       ...config.env,
       // Frontend URL is public and needed client-side for URL construction
       wcr_frontend_url: `${frontendProtocol}://${frontendDomain}`,
-      // Salt is needed client-side for decoding backend URL
-      wcr_salt: salt,
+      // Default instance slug is needed client-side by HeadScripts/BodyScripts
+      wcr_default_instance: defaultInstance,
+      // Route patterns map WordPress paths to frontend routes on both server and client
+      ...(Object.keys(routes).length > 0 ? { wcr_routes: JSON.stringify(routes) } : {}),
       // NOTE: NEXTPRESS_WP_INSTANCES is set on process.env above (server-side only)
       // It is intentionally NOT added here to prevent client-side exposure
     },
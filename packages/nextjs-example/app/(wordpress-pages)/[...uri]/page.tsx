@@ -1,6 +1,7 @@
 import { Content } from '@axistaylor/nextpress';
 import { fetchContentByUri } from '@/lib/utils';
 import Link from 'next/link';
+import ContentScripts from '@/components/ContentScripts';
 
 export interface PageParams {
   params: {
@@ -22,5 +23,5 @@ export default async function Page({ params: paramsPromise }: PageParams) {
     console.error(`Failed to find page content for: ${uri}`)
     return null;
   }
-  return <Content content={content} linksAs={Link} />;
+  return <Content content={content} linksAs={Link} scriptsAs={ContentScripts} />;
 }
\ No newline at end of file
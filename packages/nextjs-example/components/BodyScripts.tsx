@@ -1,5 +1,5 @@
 'use client';
-import { BodyScripts as NextPressBodyScripts, useScriptsReady, EnqueuedScript } from "@axistaylor/nextpress/client";
+import { BodyScripts as NextPressBodyScripts, useScriptsReady, ResolvedEnqueuedScript } from "@axistaylor/nextpress/client";
 
 /**
  * BodyScripts Component
@@ -7,7 +7,7 @@ import { BodyScripts as NextPressBodyScripts, useScriptsReady, EnqueuedScript }
  * Renders WordPress scripts that should be loaded before closing </body>.
  * Uses the new BodyScripts RSC component instead of deprecated RenderScripts.
  */
-export default function BodyScripts({ scripts }: { scripts: EnqueuedScript[] }) {
+export default function BodyScripts({ scripts }: { scripts: ResolvedEnqueuedScript[] }) {
   const { headScriptsLoaded, setBodyScriptsLoaded } = useScriptsReady();
   return (
     <NextPressBodyScripts
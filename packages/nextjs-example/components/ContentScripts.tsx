@@ -0,0 +1,12 @@
+'use client';
+import { ContentScripts as NextPressContentScripts, ContentScript } from "@axistaylor/nextpress/client";
+
+/**
+ * ContentScripts Component
+ *
+ * Executes scripts found in WordPress post content, such as Custom HTML blocks,
+ * once HeadScripts and BodyScripts have loaded.
+ */
+export default function ContentScripts({ scripts }: { scripts: ContentScript[] }) {
+  return <NextPressContentScripts scripts={scripts} />;
+}
@@ -1,5 +1,5 @@
 'use client';
-import { HeadScripts as NextPressHeadScripts, useScriptsReady, EnqueuedScript } from "@axistaylor/nextpress/client";
+import { HeadScripts as NextPressHeadScripts, useScriptsReady, ResolvedEnqueuedScript } from "@axistaylor/nextpress/client";
 
 /**
  * HeadScripts Component
@@ -7,7 +7,7 @@ import { HeadScripts as NextPressHeadScripts, useScriptsReady, EnqueuedScript }
  * Renders WordPress scripts that should be loaded in the <head> section.
  * Uses the new HeadScripts RSC component instead of deprecated RenderScripts.
  */
-export default function HeadScripts({ scripts }: { scripts: EnqueuedScript[] }) {
+export default function HeadScripts({ scripts }: { scripts: ResolvedEnqueuedScript[] }) {
   const { setHeadScriptsLoaded } = useScriptsReady();
   return (
     <NextPressHeadScripts
@@ -1,140 +1,56 @@
 import 'server-only';
 import { cookies } from 'next/headers';
-import { EnqueuedScript, EnqueuedStylesheet } from "@axistaylor/nextpress";
+import {
+  EnqueuedStylesheet,
+  FetchByUriOptions,
+  ResolvedEnqueuedScript,
+  fetchAssetsByUri,
+  fetchContentByUri as fetchNextPressContent,
+  resolveEnqueuedScripts,
+} from "@axistaylor/nextpress";
 
 /**
- * Fetch content by URI with Cart-Token
+ * Builds data client options from the session cookies (Cart-Token and auth token)
  */
-export async function fetchContentByUri(uri: string): Promise<string> {
+async function getSessionOptions(): Promise<FetchByUriOptions> {
   const cookieStore = await cookies();
-  const cartToken = cookieStore.get('cartToken')?.value;
-  const authToken = cookieStore.get('authToken')?.value;
-  const headers: Record<string, string> = {'Content-Type': 'application/json'};
-
-  if (cartToken) {
-    headers['Cart-Token'] = cartToken;
-  }
-  if (authToken) {
-    headers['Authorization'] = `Bearer ${authToken}`;
-  }
-
-  const response = await fetch(process.env.GRAPHQL_ENDPOINT as string, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      query: `query ($uri: String!) {
-        nodeByUri(uri: $uri) {
-          ... on Page {
-            content
-          }
-          ... on Post {
-            content
-          }
-        }
-      }`,
-      variables: { uri },
-    }),
-    cache: 'no-store',
-  });
 
-  // Handle non-JSON responses
-  if (!response.ok) {
-    console.error(`[fetchContentByUri] GraphQL error for ${uri}:`, response.status);
-    return '';
-  }
-
-  let data;
-  try {
-    const jsonResponse = await response.json();
-    data = jsonResponse.data;
-  } catch (error) {
-    console.error(`[fetchContentByUri] Failed to parse JSON for ${uri}:`, error);
-    return '';
-  }
+  return {
+    cartToken: cookieStore.get('cartToken')?.value,
+    authToken: cookieStore.get('authToken')?.value,
+  };
+}
 
-  const node = data?.nodeByUri;
+/**
+ * Fetch content by URI with Cart-Token
+ */
+export async function fetchContentByUri(uri: string): Promise<string> {
+  const result = await fetchNextPressContent(uri, await getSessionOptions());
 
-  if (!node) {
+  if (!result.ok) {
+    console.error(`[fetchContentByUri] ${result.error.type} error for ${uri}:`, result.error.message);
     return '';
   }
 
-  const content = node.content;
-
-  return content;
+  return result.data.content || '';
 }
 
-export async function fetchStylesAndScriptsByUri(uri: string): Promise<{ scripts: EnqueuedScript[], stylesheets: EnqueuedStylesheet[] }> {
-  const cookieStore = await cookies();
-  const cartToken = cookieStore.get('cartToken')?.value;
-  const authToken = cookieStore.get('authToken')?.value;
-  const headers: Record<string, string> = {'Content-Type': 'application/json'};
-  if (cartToken) {
-    headers['Cart-Token'] = cartToken;
-  }
-  if (authToken) {
-    headers['Authorization'] = `Bearer ${authToken}`;
-  }
+export async function fetchStylesAndScriptsByUri(uri: string): Promise<{ scripts: ResolvedEnqueuedScript[], stylesheets: EnqueuedStylesheet[] }> {
+  const result = await fetchAssetsByUri(uri, await getSessionOptions());
 
-  const response = await fetch(process.env.GRAPHQL_ENDPOINT as string, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      query: `query ($uri: String!) {
-        assetsByUri(uri: $uri) {
-          id
-          uri
-          enqueuedStylesheets(first: 500) {
-            nodes {
-              handle
-              src
-              version
-              after
-              before
-              dependencies {
-                handle
-              }
-            }
-          }
-          enqueuedScripts(first: 500) {
-            nodes {
-              handle
-              src
-              strategy
-              version
-              after
-              group
-              location
-              before
-              extraData
-              dependencies {
-                handle
-              }
-            }
-          }
-        }
-      }`,
-      variables: { uri }
-    }),
-    cache: 'no-store',
-  });
-
-  const { data } = await response.json();
-  const assets = data?.assetsByUri;
-
-  if (!assets) {
+  if (!result.ok) {
+    console.error(`[fetchStylesAndScriptsByUri] ${result.error.type} error for ${uri}:`, result.error.message);
     return {
       scripts: [],
       stylesheets: [],
     };
   }
 
-  const scripts = assets.enqueuedScripts.nodes;
-  const stylesheets = assets.enqueuedStylesheets.nodes;
-
   return {
-    scripts,
-    stylesheets,
-  }
+    // Resolve proxied/direct script URLs on the server so the loaders don't have to
+    scripts: resolveEnqueuedScripts(result.data.scripts),
+    stylesheets: result.data.stylesheets,
+  };
 }
 
 export interface ProductImage {
@@ -37,6 +37,7 @@ export default withWCR(
     wpProtocol,
     wpHomeUrl: `${wpProtocol}://${wpDomain}`,
     wpSiteUrl: `${wpProtocol}://${wpDomain}/wp`,
+    wpGraphqlPath: '/wp/graphql',
   },
   {
     frontendDomain: 'localhost:3000',
@@ -77,7 +77,6 @@ export const proxy = async (request: NextRequest) => {
 export const config = {
   matcher: [
     // API routes for proxying to WordPress
-    '/atx/:instance/proxiee',
     '/atx/:instance/wp',
     '/atx/:instance/wc',
     '/atx/:instance/wp-internal-assets/:path*',
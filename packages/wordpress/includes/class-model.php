@@ -22,6 +22,9 @@ use GraphQL\Error\UserError;
  * @property string   $uri
  * @property string[] $enqueuedScriptsQueue
  * @property string[] $enqueuedStylesheetsQueue
+ * @property ?array   $interactivity
+ * @property array[]  $enqueuedScriptModules
+ * @property ?string  $importMap
  *
  * @package WPGraphQL\WooCommerce\Model
  */
@@ -54,6 +57,13 @@ class Model extends Base {
 	 */
 	protected $global_post;
 
+	/**
+	 * Script modules and import map collected while rendering
+	 *
+	 * @var ?array{modules: array[], importMap: ?array}
+	 */
+	protected $script_modules;
+
 	/**
 	 * Model constructor
 	 *
@@ -199,6 +209,232 @@ class Model extends Base {
 		);
 	}
 
+	/**
+	 * Get the Interactivity API state and config collected while rendering
+	 *
+	 * @return array{state?: array, config?: array}
+	 */
+	public static function get_interactivity_data() {
+		// WordPress 6.7+ passes the data to the script module through a filter.
+		if ( method_exists( wp_interactivity(), 'filter_script_module_interactivity_data' ) ) {
+			$data = apply_filters( 'script_module_data_@wordpress/interactivity', [] );
+			return is_array( $data ) ? $data : [];
+		}
+
+		// WordPress 6.5 and 6.6 print it as JSON in the footer.
+		ob_start();
+		wp_interactivity()->print_client_interactivity_data();
+		$output = ob_get_clean();
+
+		if ( ! preg_match( '/<script[^>]*>(.*)<\/script>/s', $output, $matches ) ) {
+			return [];
+		}
+
+		$data = json_decode( $matches[1], true );
+		return is_array( $data ) ? $data : [];
+	}
+
+	/**
+	 * Get the URL of the @wordpress/interactivity script module
+	 *
+	 * @param ?array $import_map Import map printed for the URI.
+	 *
+	 * @return string
+	 */
+	public static function get_interactivity_runtime_src( $import_map = null ) {
+		// Use the import map's URL, so the runtime is only evaluated once.
+		if ( ! empty( $import_map['imports']['@wordpress/interactivity'] ) ) {
+			return $import_map['imports']['@wordpress/interactivity'];
+		}
+
+		$suffix = wp_scripts_get_suffix();
+
+		// Script modules moved to their own directory in WordPress 6.7.
+		$path = version_compare( get_bloginfo( 'version' ), '6.7', '>=' )
+			? "js/dist/script-modules/interactivity/index{$suffix}.js"
+			: "js/dist/interactivity{$suffix}.js";
+
+		return includes_url( $path );
+	}
+
+	/**
+	 * Call a public method of the script modules registry.
+	 *
+	 * Methods that are missing or not public in the running WordPress version
+	 * return null instead.
+	 *
+	 * @param string $method  Method name.
+	 * @param mixed  ...$args Method arguments.
+	 *
+	 * @return mixed
+	 */
+	public static function call_script_modules_method( $method, ...$args ) {
+		$script_modules = wp_script_modules();
+		if ( ! method_exists( $script_modules, $method ) || ! is_callable( [ $script_modules, $method ] ) ) {
+			return null;
+		}
+
+		return $script_modules->$method( ...$args );
+	}
+
+	/**
+	 * Collect the script modules and import map WordPress prints while rendering.
+	 *
+	 * WP_Script_Modules only prints them, so they are read from the attributes and
+	 * code passed through the script tag filters.
+	 *
+	 * @param callable $render Renders the page.
+	 *
+	 * @return array{modules: array<string, string>, importMap: ?array} Module URLs keyed by ID, and the import map.
+	 */
+	protected static function collect_printed_script_modules( callable $render ) {
+		$printed = [
+			'modules'   => [],
+			'importMap' => null,
+		];
+
+		$collect_module     = static function ( $attributes ) use ( &$printed ) {
+			$id = $attributes['id'] ?? '';
+			if ( 'module' === ( $attributes['type'] ?? null ) && ! empty( $attributes['src'] ) && '-js-module' === substr( $id, -10 ) ) {
+				$printed['modules'][ substr( $id, 0, -10 ) ] = $attributes['src'];
+			}
+			return $attributes;
+		};
+		$collect_import_map = static function ( $attributes, $data ) use ( &$printed ) {
+			if ( 'importmap' === ( $attributes['type'] ?? null ) ) {
+				$import_map = json_decode( $data, true );
+				if ( ! empty( $import_map['imports'] ) ) {
+					$printed['importMap'] = $import_map;
+				}
+			}
+			return $attributes;
+		};
+
+		add_filter( 'wp_script_attributes', $collect_module, PHP_INT_MAX );
+		add_filter( 'wp_inline_script_attributes', $collect_import_map, PHP_INT_MAX, 2 );
+
+		ob_start();
+		$render();
+
+		// Block themes print on wp_head, before the content enqueues its modules.
+		$script_modules = wp_script_modules();
+		if ( method_exists( $script_modules, 'print_enqueued_script_modules' ) ) {
+			$script_modules->print_enqueued_script_modules();
+		}
+		if ( method_exists( $script_modules, 'print_import_map' ) ) {
+			$script_modules->print_import_map();
+		}
+		ob_get_clean();
+
+		remove_filter( 'wp_script_attributes', $collect_module, PHP_INT_MAX );
+		remove_filter( 'wp_inline_script_attributes', $collect_import_map, PHP_INT_MAX );
+
+		return $printed;
+	}
+
+	/**
+	 * Sort script modules so enqueued dependencies come before their dependents
+	 *
+	 * @param array<string, array> $modules  Dependencies of the enqueued modules, keyed by ID.
+	 * @param string[]             $ids      IDs to add, in enqueue order.
+	 * @param string[]             $sorted   IDs added so far.
+	 *
+	 * @return string[]
+	 */
+	protected static function sort_script_modules( array $modules, array $ids, array $sorted = [] ) {
+		foreach ( $ids as $id ) {
+			if ( ! isset( $modules[ $id ] ) || in_array( $id, $sorted, true ) ) {
+				continue;
+			}
+
+			// Add the module before visiting its dependencies to stop at cycles.
+			$sorted[]     = $id;
+			$dependencies = array_column( $modules[ $id ], 'id' );
+			$sorted       = self::sort_script_modules( $modules, $dependencies, $sorted );
+
+			// Move the module after its dependencies.
+			$sorted   = array_values( array_diff( $sorted, [ $id ] ) );
+			$sorted[] = $id;
+		}
+
+		return $sorted;
+	}
+
+	/**
+	 * Get the script modules enqueued while rendering and their import map
+	 *
+	 * @return array{modules: array[], importMap: ?array}
+	 */
+	protected function get_script_modules_data() {
+		if ( null !== $this->script_modules ) {
+			return $this->script_modules;
+		}
+
+		$this->script_modules = [
+			'modules'   => [],
+			'importMap' => null,
+		];
+
+		// Script modules are available since WordPress 6.5.
+		if ( ! function_exists( 'wp_script_modules' ) ) {
+			return $this->script_modules;
+		}
+
+		// Simulate WP template rendering.
+		$printed = self::collect_printed_script_modules(
+			function () {
+				do_action( 'wp_head' );
+				$this->data->contentRendered;
+				do_action( 'get_sidebar', null, [] );
+				do_action( 'wp_footer' );
+			}
+		);
+		if ( empty( $printed['modules'] ) ) {
+			return $this->script_modules;
+		}
+
+		// Dependencies are only known when the registry exposes the enqueued modules publicly.
+		$enqueued     = self::call_script_modules_method( 'get_marked_for_enqueue' );
+		$dependencies = [];
+		foreach ( array_keys( $printed['modules'] ) as $id ) {
+			$dependencies[ $id ] = is_array( $enqueued ) ? ( $enqueued[ $id ]['dependencies'] ?? [] ) : [];
+		}
+
+		foreach ( self::sort_script_modules( $dependencies, array_keys( $dependencies ) ) as $id ) {
+			$by_import = static function ( $import ) use ( $dependencies, $id ) {
+				$matching = array_filter(
+					$dependencies[ $id ],
+					static function ( $dependency ) use ( $import ) {
+						return ( $dependency['import'] ?? 'static' ) === $import;
+					}
+				);
+				return array_values( array_column( $matching, 'id' ) );
+			};
+
+			// WordPress prints the version as the ver query argument.
+			$src   = $printed['modules'][ $id ];
+			$query = [];
+			wp_parse_str( (string) wp_parse_url( $src, PHP_URL_QUERY ), $query );
+
+			$this->script_modules['modules'][] = [
+				'id'                  => $id,
+				'src'                 => $src,
+				'version'             => is_string( $query['ver'] ?? null ) ? $query['ver'] : null,
+				'dependencies'        => $by_import( 'static' ),
+				'dynamicDependencies' => $by_import( 'dynamic' ),
+			];
+		}
+
+		$this->script_modules['importMap'] = $printed['importMap'];
+
+		// Reset the modules queue to avoid conflicts with other queries.
+		foreach ( array_keys( $printed['modules'] ) as $id ) {
+			wp_dequeue_script_module( $id );
+		}
+
+		return $this->script_modules;
+	}
+
 	public function setup() {
 		global $wp_query, $post;
 
@@ -332,6 +568,34 @@ class Model extends Base {
 
 					return $queue;
 				},
+				'interactivity'            => function () {
+					// The Interactivity API is available since WordPress 6.5.
+					if ( ! function_exists( 'wp_interactivity' ) ) {
+						return null;
+					}
+
+					// Blocks set their state and config while rendering.
+					$this->data->contentRendered;
+
+					$data = self::get_interactivity_data();
+					if ( empty( $data['state'] ) && empty( $data['config'] ) ) {
+						return null;
+					}
+
+					return [
+						'state'      => wp_json_encode( (object) ( $data['state'] ?? [] ) ),
+						'config'     => wp_json_encode( (object) ( $data['config'] ?? [] ) ),
+						'runtimeSrc' => self::get_interactivity_runtime_src( $this->get_script_modules_data()['importMap'] ),
+					];
+				},
+				'enqueuedScriptModules'    => function () {
+					return $this->get_script_modules_data()['modules'];
+				},
+				'importMap'                => function () {
+					$import_map = $this->get_script_modules_data()['importMap'];
+
+					return null !== $import_map ? wp_json_encode( $import_map, JSON_UNESCAPED_SLASHES ) : null;
+				},
 			];
 		}//end if
 	}
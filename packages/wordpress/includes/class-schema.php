@@ -91,20 +91,83 @@ class Schema {
 				},
 			]
 		);
+
+		register_graphql_object_type(
+			'UriAssetsInteractivity',
+			[
+				'description' => __( 'Interactivity API data for the blocks rendered at a URI', 'nextpress' ),
+				'fields'      => [
+					'state'      => [
+						'type'        => 'String',
+						'description' => __( 'JSON-encoded server state, keyed by store namespace', 'nextpress' ),
+					],
+					'config'     => [
+						'type'        => 'String',
+						'description' => __( 'JSON-encoded store config, keyed by store namespace', 'nextpress' ),
+					],
+					'runtimeSrc' => [
+						'type'        => 'String',
+						'description' => __( 'URL of the @wordpress/interactivity script module', 'nextpress' ),
+					],
+				],
+			]
+		);
+
+		register_graphql_object_type(
+			'EnqueuedScriptModule',
+			[
+				'description' => __( 'A script module enqueued for a URI', 'nextpress' ),
+				'fields'      => [
+					'id'                  => [
+						'type'        => [ 'non_null' => 'String' ],
+						'description' => __( 'The module identifier. Ex: "@wordpress/block-library/navigation/view"', 'nextpress' ),
+					],
+					'src'                 => [
+						'type'        => 'String',
+						'description' => __( 'The source of the module, including the version query', 'nextpress' ),
+					],
+					'version'             => [
+						'type'        => 'String',
+						'description' => __( 'The version of the module', 'nextpress' ),
+					],
+					'dependencies'        => [
+						'type'        => [ 'list_of' => 'String' ],
+						'description' => __( 'Identifiers of the modules imported statically', 'nextpress' ),
+					],
+					'dynamicDependencies' => [
+						'type'        => [ 'list_of' => 'String' ],
+						'description' => __( 'Identifiers of the modules imported dynamically', 'nextpress' ),
+					],
+				],
+			]
+		);
+
 		// Register the URI Assets type
 		register_graphql_object_type(
 			'UriAssets',
 			[
 				'interfaces'  => [ 'Node' ],
 				'fields'      => [
-					'id'  => [
+					'id'                    => [
 						'type'        => [ 'non_null' => 'ID' ],
 						'description' => __( 'The global ID of the URI Assets object.', 'nextpress' ),
 					],
-					'uri' => [
+					'uri'                   => [
 						'type'        => 'String',
 						'description' => __( 'Unique Resource Identifier in the form of a path or permalink for a node. Ex: "/hello-world"', 'nextpress' ),
 					],
+					'interactivity'         => [
+						'type'        => 'UriAssetsInteractivity',
+						'description' => __( 'Interactivity API state and config set while rendering the content. Null when no block set any.', 'nextpress' ),
+					],
+					'enqueuedScriptModules' => [
+						'type'        => [ 'list_of' => 'EnqueuedScriptModule' ],
+						'description' => __( 'Script modules enqueued while rendering the content, dependencies first', 'nextpress' ),
+					],
+					'importMap'             => [
+						'type'        => 'String',
+						'description' => __( 'JSON-encoded import map for the enqueued script modules. Null when no module was enqueued.', 'nextpress' ),
+					],
 				],
 				'connections' => [
 					'enqueuedScripts'     => [
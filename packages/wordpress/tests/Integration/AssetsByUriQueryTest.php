@@ -177,4 +177,120 @@ class AssetsByUriQueryTest extends NextPressTestCase
             $this->expectedField('assetsByUri.uri', $uri),
         ]);
     }
+
+    /**
+     * Test that assetsByUri query returns the Interactivity API state set while rendering.
+     */
+    public function testAssetsByUriQueryReturnsInteractivityState(): void
+    {
+        if (!function_exists('wp_interactivity_state')) {
+            $this->markTestSkipped('The Interactivity API requires WordPress 6.5 or later.');
+        }
+
+        $set_state = static function ($block_content) {
+            wp_interactivity_state('nextpress/test', ['count' => 1]);
+            wp_interactivity_config('nextpress/test', ['step' => 2]);
+            return $block_content;
+        };
+        add_filter('render_block', $set_state);
+
+        $uri = $this->getPostUri($this->test_post);
+
+        $response = $this->graphql([
+            'query'     => '
+                query GetAssetsByUri($uri: String!) {
+                    assetsByUri(uri: $uri) {
+                        interactivity {
+                            state
+                            config
+                            runtimeSrc
+                        }
+                    }
+                }
+            ',
+            'variables' => ['uri' => $uri],
+        ]);
+
+        remove_filter('render_block', $set_state);
+
+        $this->assertQuerySuccessful($response, [
+            $this->expectedField('assetsByUri.interactivity.runtimeSrc', self::NOT_NULL),
+        ]);
+
+        $interactivity = $response['data']['assetsByUri']['interactivity'];
+        $this->assertSame(['count' => 1], json_decode($interactivity['state'], true)['nextpress/test']);
+        $this->assertSame(['step' => 2], json_decode($interactivity['config'], true)['nextpress/test']);
+        $this->assertStringContainsString('interactivity', $interactivity['runtimeSrc']);
+    }
+
+    /**
+     * Test that assetsByUri query returns enqueued script modules and their import map.
+     */
+    public function testAssetsByUriQueryReturnsScriptModules(): void
+    {
+        if (!function_exists('wp_enqueue_script_module')) {
+            $this->markTestSkipped('Script modules require WordPress 6.5 or later.');
+        }
+
+        $enqueue_modules = static function ($block_content) {
+            wp_register_script_module('nextpress/utils', 'https://example.org/utils.js', [], '1.0.0');
+            wp_enqueue_script_module(
+                'nextpress/view',
+                'https://example.org/view.js',
+                ['nextpress/store', ['id' => 'nextpress/utils', 'import' => 'dynamic']],
+                '1.0.0'
+            );
+            wp_enqueue_script_module('nextpress/store', 'https://example.org/store.js', [], '1.0.0');
+            return $block_content;
+        };
+        add_filter('render_block', $enqueue_modules);
+
+        $uri = $this->getPostUri($this->test_post);
+
+        $response = $this->graphql([
+            'query'     => '
+                query GetAssetsByUri($uri: String!) {
+                    assetsByUri(uri: $uri) {
+                        enqueuedScriptModules {
+                            id
+                            src
+                            version
+                            dependencies
+                            dynamicDependencies
+                        }
+                        importMap
+                    }
+                }
+            ',
+            'variables' => ['uri' => $uri],
+        ]);
+
+        remove_filter('render_block', $enqueue_modules);
+
+        $this->assertQuerySuccessful($response, [
+            $this->expectedField('assetsByUri.importMap', self::NOT_NULL),
+        ]);
+
+        $modules = array_column($response['data']['assetsByUri']['enqueuedScriptModules'], null, 'id');
+        $ids     = array_keys($modules);
+
+        $this->assertEqualsCanonicalizing(['nextpress/view', 'nextpress/store'], $ids);
+        $this->assertSame('1.0.0', $modules['nextpress/view']['version']);
+
+        // Dependencies are only known when WordPress exposes the enqueued modules publicly.
+        if (is_callable([wp_script_modules(), 'get_marked_for_enqueue'])) {
+            // Dependencies come before their dependents.
+            $this->assertLessThan(array_search('nextpress/view', $ids, true), array_search('nextpress/store', $ids, true));
+            $this->assertSame(['nextpress/store'], $modules['nextpress/view']['dependencies']);
+            $this->assertSame(['nextpress/utils'], $modules['nextpress/view']['dynamicDependencies']);
+        } else {
+            $this->assertSame([], $modules['nextpress/view']['dependencies']);
+            $this->assertSame([], $modules['nextpress/view']['dynamicDependencies']);
+        }
+        $this->assertStringStartsWith('https://example.org/view.js', $modules['nextpress/view']['src']);
+
+        $import_map = json_decode($response['data']['assetsByUri']['importMap'], true);
+        $this->assertArrayHasKey('nextpress/store', $import_map['imports']);
+        $this->assertArrayHasKey('nextpress/utils', $import_map['imports']);
+    }
 }